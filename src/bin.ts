@@ -0,0 +1,8 @@
+#!/usr/bin/env node
+import { Introspect } from "./index";
+
+async function run() {
+  await Introspect.new().parse(process.argv.slice(2));
+}
+
+run();
@@ -0,0 +1,223 @@
+import { IGQLField, IGQLType } from "prisma-datamodel";
+import { IntrospectionResult } from "../types";
+import { getFieldTypeName, isRelationField } from "../introspect/util";
+
+export interface DiagramOptions {
+  /**
+   * Groups the types by the schema they were introspected from
+   */
+  clusterBySchema?: boolean;
+}
+
+/**
+ * Cardinality of one end of a relation, as drawn next to the type at that end
+ */
+type Cardinality = "zeroOrOne" | "exactlyOne" | "zeroOrMore";
+
+interface Relation {
+  from: IGQLType;
+  fromField: IGQLField;
+  to: IGQLType;
+  toField: IGQLField | null;
+}
+
+interface Cluster {
+  schema: string | null;
+  types: IGQLType[];
+}
+
+/**
+ * The cardinality of the type a relation field points to
+ */
+function getCardinality(field: IGQLField | null): Cardinality {
+  // A relation only defined on one side is the "1" side of a foreign key
+  if (!field || field.isList) {
+    return "zeroOrMore";
+  }
+
+  return field.isRequired ? "exactlyOne" : "zeroOrOne";
+}
+
+/**
+ * Every relation once, also when both sides define a field
+ */
+function getRelations(types: IGQLType[]): Relation[] {
+  const seen = new Set<IGQLField>();
+
+  return types.reduce<Relation[]>((acc, type) => {
+    const relations = type.fields
+      .filter(field => isRelationField(field) && !seen.has(field))
+      .map(field => {
+        seen.add(field);
+        if (field.relatedField) {
+          seen.add(field.relatedField);
+        }
+
+        return {
+          from: type,
+          fromField: field,
+          to: field.type as IGQLType,
+          toField: field.relatedField,
+        };
+      })
+      .filter(relation => types.includes(relation.to));
+
+    return [...acc, ...relations];
+  }, []);
+}
+
+function getRelationLabel({ fromField, toField }: Relation): string {
+  return toField ? `${fromField.name} / ${toField.name}` : fromField.name;
+}
+
+function getClusters(
+  result: IntrospectionResult,
+  types: IGQLType[],
+  { clusterBySchema }: DiagramOptions,
+): Cluster[] {
+  if (!clusterBySchema || result.schemas.length < 2) {
+    return [{ schema: null, types }];
+  }
+
+  return result.schemas.map(schema => ({
+    schema: schema.name,
+    types: types.filter(type => schema.types.includes(type.name)),
+  }));
+}
+
+function getAttributeKeys(field: IGQLField): string[] {
+  return [
+    ...(field.isId ? ["PK"] : []),
+    ...(field.isUnique && !field.isId ? ["UK"] : []),
+  ];
+}
+
+const mermaidCardinalities: Record<Cardinality, [string, string]> = {
+  // Left end, right end
+  zeroOrOne: ["|o", "o|"],
+  exactlyOne: ["||", "||"],
+  zeroOrMore: ["}o", "o{"],
+};
+
+function renderMermaidEntity(type: IGQLType): string {
+  const attributes = type.fields
+    .filter(field => !isRelationField(field))
+    .map(field => {
+      const typeName = `${getFieldTypeName(field)}${field.isList ? "[]" : ""}`;
+      const comment = field.isRequired || field.isList ? "" : ' "optional"';
+
+      return `    ${[typeName, field.name, ...getAttributeKeys(field)].join(
+        " ",
+      )}${comment}`;
+    });
+
+  return [`  ${type.name} {`, ...attributes, "  }"].join("\n");
+}
+
+function renderMermaidRelation(relation: Relation): string {
+  const left = mermaidCardinalities[getCardinality(relation.toField)][0];
+  const right = mermaidCardinalities[getCardinality(relation.fromField)][1];
+
+  return `  ${relation.from.name} ${left}--${right} ${
+    relation.to.name
+  } : ${JSON.stringify(getRelationLabel(relation))}`;
+}
+
+/**
+ * Renders the types and relations as a Mermaid ER diagram. Mermaid has no groups
+ * for entities, clusters are marked with comments.
+ */
+export function renderMermaidDiagram(
+  result: IntrospectionResult,
+  options: DiagramOptions = {},
+): string {
+  const types = result.datamodel.types.filter(t => !t.isEnum);
+  const entities = getClusters(result, types, options).map(
+    ({ schema, types: clusterTypes }) =>
+      [
+        ...(schema ? [`  %% Schema ${schema}`] : []),
+        ...clusterTypes.map(renderMermaidEntity),
+      ].join("\n"),
+  );
+
+  return `${[
+    "erDiagram",
+    ...getRelations(types).map(renderMermaidRelation),
+    ...entities,
+  ].join("\n")}\n`;
+}
+
+const dotArrows: Record<Cardinality, string> = {
+  zeroOrOne: "teeodot",
+  exactlyOne: "teetee",
+  zeroOrMore: "crowodot",
+};
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;");
+}
+
+function renderDotNode(type: IGQLType, indent: string): string {
+  const rows = type.fields.map(field => {
+    const typeName = `${getFieldTypeName(field)}${
+      field.isList ? "[]" : field.isRequired ? "" : "?"
+    }`;
+    const keys = getAttributeKeys(field);
+
+    return `<tr><td port="${field.name}" align="left">${escapeHtml(
+      `${field.name}: ${typeName}${
+        keys.length > 0 ? ` ${keys.join(" ")}` : ""
+      }`,
+    )}</td></tr>`;
+  });
+
+  return `${indent}${
+    type.name
+  } [label=<<table border="0" cellborder="1" cellspacing="0"><tr><td bgcolor="lightgrey"><b>${
+    type.name
+  }</b></td></tr>${rows.join("")}</table>>];`;
+}
+
+function renderDotEdge(relation: Relation): string {
+  const { from, fromField, to, toField } = relation;
+
+  return `  ${from.name}:${fromField.name} -> ${to.name}${
+    toField ? `:${toField.name}` : ""
+  } [dir=both, arrowtail=${dotArrows[getCardinality(toField)]}, arrowhead=${
+    dotArrows[getCardinality(fromField)]
+  }, label=${JSON.stringify(getRelationLabel(relation))}];`;
+}
+
+/**
+ * Renders the types and relations as a Graphviz digraph with crow's foot arrows.
+ * Clusters become `cluster_` subgraphs.
+ */
+export function renderDotDiagram(
+  result: IntrospectionResult,
+  options: DiagramOptions = {},
+): string {
+  const types = result.datamodel.types.filter(t => !t.isEnum);
+  const nodes = getClusters(result, types, options).map(
+    ({ schema, types: clusterTypes }) =>
+      schema
+        ? [
+            `  subgraph ${JSON.stringify(`cluster_${schema}`)} {`,
+            `    label=${JSON.stringify(schema)};`,
+            ...clusterTypes.map(type => renderDotNode(type, "    ")),
+            "  }",
+          ].join("\n")
+        : clusterTypes.map(type => renderDotNode(type, "  ")).join("\n"),
+  );
+
+  return `${[
+    "digraph datamodel {",
+    "  graph [rankdir=LR];",
+    "  node [shape=plaintext];",
+    ...nodes,
+    ...getRelations(types).map(renderDotEdge),
+    "}",
+  ].join("\n")}\n`;
+}
@@ -0,0 +1,394 @@
+import {
+  DatabaseType,
+  IdStrategy,
+  IGQLField,
+  IGQLType,
+} from "prisma-datamodel";
+import { IntrospectionResult } from "../types";
+import { getFieldTypeName, isRelationField } from "../introspect/util";
+
+/**
+ * A piece of text, optionally linking to the section of another type
+ */
+interface Inline {
+  text: string;
+  anchor?: string;
+  code?: boolean;
+}
+
+type Cell = Inline[];
+
+interface Block {
+  heading: string;
+  headers: string[];
+  rows: Cell[][];
+}
+
+interface Section {
+  anchor: string;
+  title: string;
+  paragraphs: Cell[];
+  blocks: Block[];
+}
+
+/**
+ * The dictionary is built once and rendered as Markdown or HTML
+ */
+interface Dictionary {
+  title: string;
+  paragraphs: Cell[];
+  sections: Section[];
+}
+
+function text(value: string): Inline {
+  return { text: value };
+}
+
+function code(value: string): Inline {
+  return { text: value, code: true };
+}
+
+/**
+ * Matches the anchors GitHub generates for the headings
+ */
+function getAnchor(type: IGQLType): string {
+  return type.name.toLowerCase();
+}
+
+function link(type: IGQLType): Inline {
+  return { text: type.name, anchor: getAnchor(type) };
+}
+
+function joinCells(cells: Cell[], separator: string = ", "): Cell {
+  return cells.reduce<Cell>(
+    (acc, cell, i) => (i === 0 ? cell : [...acc, text(separator), ...cell]),
+    [],
+  );
+}
+
+function getDatabaseName(obj: IGQLType | IGQLField): string {
+  return obj.databaseName || obj.name;
+}
+
+function getFieldType(field: IGQLField): Cell {
+  const suffix = field.isList ? "[]" : "";
+
+  return typeof field.type === "string"
+    ? [text(`${getFieldTypeName(field)}${suffix}`)]
+    : [link(field.type), ...(suffix ? [text(suffix)] : [])];
+}
+
+function getDefault(field: IGQLField): string {
+  if (field.isId && field.idStrategy === IdStrategy.Sequence) {
+    return field.associatedSequence
+      ? `sequence ${field.associatedSequence.name}`
+      : "sequence";
+  }
+  if (field.isId && field.idStrategy === IdStrategy.Auto) {
+    return "generated";
+  }
+  if (field.isCreatedAt) {
+    return "now()";
+  }
+
+  return field.defaultValue === null ? "" : String(field.defaultValue);
+}
+
+function getUnique(field: IGQLField): string {
+  if (field.isId) {
+    return "Primary key";
+  }
+
+  return field.isUnique ? "Yes" : "";
+}
+
+function getComments(obj: IGQLType | IGQLField): string[] {
+  return obj.comments.map(comment =>
+    comment.isError ? `Error: ${comment.text}` : comment.text,
+  );
+}
+
+/**
+ * From the point of view of the type, a relation only defined on this side
+ * is either a foreign key (n:1) or a list of references (n:m)
+ */
+function getCardinality(field: IGQLField): string {
+  const other = field.relatedField;
+  const cardinality = `${other && !other.isList ? "1" : "n"}:${
+    field.isList ? "n" : "1"
+  }`;
+
+  if (field.isList) {
+    return cardinality;
+  }
+
+  return `${cardinality}, ${field.isRequired ? "required" : "optional"}`;
+}
+
+function getColumnsBlock(
+  type: IGQLType,
+  columnTypes: Record<string, string>,
+): Block {
+  return {
+    heading: "Columns",
+    headers: [
+      "Field",
+      "Column",
+      "Type",
+      "DB type",
+      "Nullable",
+      "Default",
+      "Unique",
+      "Comment",
+    ],
+    rows: type.fields
+      .filter(field => !isRelationField(field))
+      .map(field => [
+        [text(field.name)],
+        [code(getDatabaseName(field))],
+        getFieldType(field),
+        columnTypes[field.name] ? [code(columnTypes[field.name])] : [],
+        [text(field.isRequired || field.isList ? "No" : "Yes")],
+        [text(getDefault(field))],
+        [text(getUnique(field))],
+        [text(getComments(field).join(" "))],
+      ]),
+  };
+}
+
+function getRelationsBlock(
+  type: IGQLType,
+  columnTypes: Record<string, string>,
+): Block {
+  return {
+    heading: "Relations",
+    headers: ["Field", "Related type", "Cardinality", "Column", "Relation"],
+    rows: type.fields.filter(isRelationField).map(field => [
+      [text(field.name)],
+      [link(field.type as IGQLType)],
+      [text(getCardinality(field))],
+      // Only the side holding the foreign key has a column
+      columnTypes[field.name]
+        ? [code(getDatabaseName(field)), text(` (${columnTypes[field.name]})`)]
+        : [],
+      field.relationName ? [code(field.relationName)] : [],
+    ]),
+  };
+}
+
+function getIndicesBlock(type: IGQLType): Block {
+  return {
+    heading: "Indexes",
+    headers: ["Name", "Fields", "Unique"],
+    rows: type.indices.map(index => [
+      [code(index.name)],
+      [text(index.fields.map(f => f.name).join(", "))],
+      [text(index.unique ? "Yes" : "No")],
+    ]),
+  };
+}
+
+/**
+ * The types with fields pointing to the given type or enum
+ */
+function getReferences(types: IGQLType[], target: IGQLType): Cell {
+  return joinCells(
+    types
+      .filter(
+        type => type !== target && type.fields.some(f => f.type === target),
+      )
+      .map(type => [link(type)]),
+  );
+}
+
+function getTypeSection(type: IGQLType, result: IntrospectionResult): Section {
+  const { types } = result.datamodel;
+  const columnTypes = result.columnTypes[type.name] || {};
+  const references = getReferences(types, type);
+
+  return {
+    anchor: getAnchor(type),
+    title: type.name,
+    paragraphs: [
+      type.isEmbedded
+        ? [text("Embedded type, stored inside the documents of its parent")]
+        : [
+            text(
+              result.databaseType === DatabaseType.mongo
+                ? "Collection "
+                : "Table ",
+            ),
+            code(getDatabaseName(type)),
+          ],
+      ...getComments(type).map(comment => [text(comment)]),
+      ...(references.length > 0
+        ? [[text("Referenced by "), ...references]]
+        : []),
+    ],
+    blocks: [
+      getColumnsBlock(type, columnTypes),
+      getRelationsBlock(type, columnTypes),
+      getIndicesBlock(type),
+    ].filter(block => block.rows.length > 0),
+  };
+}
+
+function getEnumSection(type: IGQLType, types: IGQLType[]): Section {
+  const references = getReferences(types, type);
+
+  return {
+    anchor: getAnchor(type),
+    title: type.name,
+    paragraphs: [
+      [text("Enum")],
+      ...(type.databaseName ? [[text("Type "), code(type.databaseName)]] : []),
+      ...(references.length > 0 ? [[text("Used by "), ...references]] : []),
+    ],
+    blocks: [
+      {
+        heading: "Values",
+        headers: ["Value"],
+        rows: type.fields.map(value => [[text(value.name)]]),
+      },
+    ],
+  };
+}
+
+function getDictionary(result: IntrospectionResult): Dictionary {
+  const { types } = result.datamodel;
+  const models = types.filter(t => !t.isEnum);
+  const enums = types.filter(t => t.isEnum);
+  const hasColumnTypes = Object.keys(result.columnTypes).some(
+    name => Object.keys(result.columnTypes[name]).length > 0,
+  );
+
+  return {
+    title: "Data dictionary",
+    paragraphs: [
+      [
+        text("Database "),
+        code(result.databaseName),
+        text(` (${result.databaseType}), generated by prisma introspect.`),
+      ],
+      ...(hasColumnTypes
+        ? []
+        : [[text("The database doesn't report native column types.")]]),
+      [text("Types: "), ...joinCells(models.map(type => [link(type)]))],
+      ...(enums.length > 0
+        ? [[text("Enums: "), ...joinCells(enums.map(type => [link(type)]))]]
+        : []),
+    ],
+    sections: [
+      ...models.map(type => getTypeSection(type, result)),
+      ...enums.map(type => getEnumSection(type, types)),
+    ],
+  };
+}
+
+function renderMarkdownCell(cell: Cell): string {
+  return cell
+    .map(inline => {
+      // Comments could otherwise be read as inline HTML
+      const value = inline.code
+        ? `\`${inline.text}\``
+        : inline.text.replace(/</g, "&lt;");
+      return inline.anchor ? `[${value}](#${inline.anchor})` : value;
+    })
+    .join("")
+    .replace(/\|/g, "\\|")
+    .replace(/\n/g, " ");
+}
+
+function renderMarkdownBlock({ heading, headers, rows }: Block): string {
+  const renderRow = (cells: string[]) => `| ${cells.join(" | ")} |`;
+
+  return [
+    `### ${heading}`,
+    "",
+    renderRow(headers),
+    renderRow(headers.map(() => "---")),
+    ...rows.map(row => renderRow(row.map(renderMarkdownCell))),
+  ].join("\n");
+}
+
+/**
+ * Renders a data dictionary with a section per type and enum, linking related types
+ */
+export function renderMarkdownDictionary(result: IntrospectionResult): string {
+  const { title, paragraphs, sections } = getDictionary(result);
+
+  return `${[
+    `# ${title}`,
+    ...paragraphs.map(renderMarkdownCell),
+    ...sections.map(section =>
+      [
+        `## ${section.title}`,
+        ...section.paragraphs.map(renderMarkdownCell),
+        ...section.blocks.map(renderMarkdownBlock),
+      ].join("\n\n"),
+    ),
+  ].join("\n\n")}\n`;
+}
+
+function escapeHtml(value: string): string {
+  return value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function renderHtmlCell(cell: Cell): string {
+  return cell
+    .map(inline => {
+      const value = inline.code
+        ? `<code>${escapeHtml(inline.text)}</code>`
+        : escapeHtml(inline.text);
+      return inline.anchor ? `<a href="#${inline.anchor}">${value}</a>` : value;
+    })
+    .join("");
+}
+
+function renderHtmlBlock({ heading, headers, rows }: Block): string {
+  return [
+    `<h3>${escapeHtml(heading)}</h3>`,
+    "<table>",
+    `  <tr>${headers.map(h => `<th>${escapeHtml(h)}</th>`).join("")}</tr>`,
+    ...rows.map(
+      row =>
+        `  <tr>${row
+          .map(cell => `<td>${renderHtmlCell(cell)}</td>`)
+          .join("")}</tr>`,
+    ),
+    "</table>",
+  ].join("\n");
+}
+
+/**
+ * Same content as the Markdown dictionary, as a standalone page
+ */
+export function renderHtmlDictionary(result: IntrospectionResult): string {
+  const { title, paragraphs, sections } = getDictionary(result);
+
+  return `${[
+    "<!DOCTYPE html>",
+    "<html>",
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(title)}</title>`,
+    "<style>table { border-collapse: collapse; } th, td { border: 1px solid #ccc; padding: 4px 8px; text-align: left; }</style>",
+    "</head>",
+    "<body>",
+    `<h1>${escapeHtml(title)}</h1>`,
+    ...paragraphs.map(p => `<p>${renderHtmlCell(p)}</p>`),
+    ...sections.map(section =>
+      [
+        `<h2 id="${section.anchor}">${escapeHtml(section.title)}</h2>`,
+        ...section.paragraphs.map(p => `<p>${renderHtmlCell(p)}</p>`),
+        ...section.blocks.map(renderHtmlBlock),
+      ].join("\n"),
+    ),
+    "</body>",
+    "</html>",
+  ].join("\n")}\n`;
+}
@@ -0,0 +1,146 @@
+import * as Ajv from "ajv";
+import { IGQLField, IGQLType, ISDL, TypeIdentifier } from "prisma-datamodel";
+import { IntrospectionWarning } from "../types";
+import { getFieldTypeName } from "../introspect/util";
+import { RenderedFile } from "./targets";
+
+/**
+ * The subset of draft-07 the datamodel maps to
+ */
+interface JsonSchema {
+  $schema?: string;
+  $id?: string;
+  type?: string | string[];
+  format?: string;
+  enum?: Array<string | null>;
+  $ref?: string;
+  anyOf?: JsonSchema[];
+  items?: JsonSchema;
+  title?: string;
+  description?: string;
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  additionalProperties?: boolean;
+}
+
+const scalarSchemas: Record<TypeIdentifier, JsonSchema> = {
+  ID: { type: "string" },
+  UUID: { type: "string", format: "uuid" },
+  String: { type: "string" },
+  Int: { type: "integer" },
+  Long: { type: "integer" },
+  Float: { type: "number" },
+  Boolean: { type: "boolean" },
+  DateTime: { type: "string", format: "date-time" },
+  // Any value
+  Json: {},
+};
+
+/**
+ * Also the `$id` of the schema, relations `$ref` the file of the related type
+ */
+function getFileName(type: IGQLType): string {
+  return `${type.name}.schema.json`;
+}
+
+function getDescription(obj: IGQLType | IGQLField): string | undefined {
+  const comments = obj.comments.filter(c => !c.isError).map(c => c.text);
+  return comments.length > 0 ? comments.join("\n") : undefined;
+}
+
+function nullable(schema: JsonSchema): JsonSchema {
+  if (schema.$ref) {
+    return { anyOf: [schema, { type: "null" }] };
+  }
+  if (!schema.type) {
+    return schema;
+  }
+
+  return {
+    ...schema,
+    type: [schema.type as string, "null"],
+    ...(schema.enum ? { enum: [...schema.enum, null] } : {}),
+  };
+}
+
+function getFieldSchema(field: IGQLField): JsonSchema {
+  const type = field.type;
+  const schema: JsonSchema =
+    typeof type === "string"
+      ? scalarSchemas[getFieldTypeName(field) as TypeIdentifier] || {}
+      : type.isEnum
+      ? { type: "string", enum: type.fields.map(value => value.name) }
+      : { $ref: getFileName(type) };
+  const description = getDescription(field);
+  const withModifiers = field.isList
+    ? { type: "array", items: schema }
+    : field.isRequired
+    ? schema
+    : nullable(schema);
+
+  return description ? { ...withModifiers, description } : withModifiers;
+}
+
+function getTypeSchema(type: IGQLType): JsonSchema {
+  const description = getDescription(type);
+
+  return {
+    $schema: "http://json-schema.org/draft-07/schema#",
+    $id: getFileName(type),
+    title: type.name,
+    ...(description ? { description } : {}),
+    type: "object",
+    properties: type.fields.reduce<Record<string, JsonSchema>>(
+      (acc, field) => ({ ...acc, [field.name]: getFieldSchema(field) }),
+      {},
+    ),
+    required: type.fields
+      .filter(field => field.isRequired && !field.isList)
+      .map(field => field.name),
+    additionalProperties: false,
+  };
+}
+
+/**
+ * Compiles every schema with the others as references, so that a broken `$ref`
+ * or keyword is reported instead of failing the consumers of the files
+ */
+function validateSchemas(
+  schemas: JsonSchema[],
+  types: IGQLType[],
+): IntrospectionWarning[] {
+  const ajv = new Ajv();
+  schemas.forEach(schema => ajv.addSchema(schema));
+
+  return schemas.reduce<IntrospectionWarning[]>((acc, schema, i) => {
+    try {
+      ajv.compile(schema);
+      return acc;
+    } catch (e) {
+      return [
+        ...acc,
+        {
+          type: types[i].name,
+          field: null,
+          message: `The JSON Schema of the type doesn't compile: ${e.message}`,
+        },
+      ];
+    }
+  }, []);
+}
+
+/**
+ * Renders a draft-07 schema per type. Relations point to the schema of the related type
+ * with `$ref`, enums are inlined. Lists aren't required, as they are often left out of payloads.
+ */
+export function renderJsonSchemas(datamodel: ISDL): RenderedFile[] {
+  const types = datamodel.types.filter(t => !t.isEnum);
+  const schemas = types.map(getTypeSchema);
+  const warnings = validateSchemas(schemas, types);
+
+  return types.map((type, i) => ({
+    fileName: getFileName(type),
+    content: `${JSON.stringify(schemas[i], null, 2)}\n`,
+    warnings: warnings.filter(w => w.type === type.name),
+  }));
+}
@@ -0,0 +1,855 @@
+import {
+  capitalize,
+  DatabaseType,
+  DirectiveKeys,
+  IdStrategy,
+  IGQLField,
+  IGQLType,
+  ISDL,
+  lowerCase,
+  plural,
+  TypeIdentifier,
+} from "prisma-datamodel";
+import { ColumnTypes, IntrospectionWarning } from "../types";
+import { getFieldTypeName, isRelationField } from "../introspect/util";
+import { RenderedFile } from "./targets";
+
+const providers: Record<DatabaseType, string> = {
+  [DatabaseType.postgres]: "postgresql",
+  [DatabaseType.mysql]: "mysql",
+  [DatabaseType.sqlite]: "sqlite",
+  [DatabaseType.mongo]: "mongodb",
+};
+
+const scalarTypes: Record<TypeIdentifier, string> = {
+  ID: "String",
+  UUID: "String",
+  String: "String",
+  Int: "Int",
+  Long: "BigInt",
+  Float: "Float",
+  Boolean: "Boolean",
+  DateTime: "DateTime",
+  Json: "Json",
+};
+
+interface NativeType {
+  /**
+   * Name of the `@db.` attribute
+   */
+  name: string;
+  /**
+   * The Prisma 2 scalar types the attribute is allowed on
+   */
+  scalarTypes: string[];
+  /**
+   * Prisma 1 types of the column that Prisma 2 reads as the first of `scalarTypes`,
+   * e.g. Prisma 1 reads decimal columns as Float
+   */
+  convertedFrom?: string[];
+  /**
+   * The length or precision of the column is kept, e.g. `@db.VarChar(255)`
+   */
+  withArguments?: boolean;
+}
+
+interface NativeTypes {
+  /**
+   * By column type, with or without its arguments. MySQL's `unsigned` is part of the name.
+   */
+  types: Record<string, NativeType>;
+  /**
+   * The column types Prisma 2 uses without a `@db.` attribute
+   */
+  defaults: Record<string, string>;
+  /**
+   * Postgres reports the `udt_name` of the columns, e.g. `varchar` without its length
+   */
+  reportsArguments: boolean;
+}
+
+const nativeTypesByDatabase: Partial<Record<DatabaseType, NativeTypes>> = {
+  [DatabaseType.postgres]: {
+    types: {
+      int2: { name: "SmallInt", scalarTypes: ["Int"] },
+      int4: { name: "Integer", scalarTypes: ["Int"] },
+      int8: { name: "BigInt", scalarTypes: ["BigInt"], convertedFrom: ["Int"] },
+      float4: { name: "Real", scalarTypes: ["Float"] },
+      float8: { name: "DoublePrecision", scalarTypes: ["Float"] },
+      numeric: {
+        name: "Decimal",
+        scalarTypes: ["Decimal"],
+        convertedFrom: ["Float", "Int"],
+        withArguments: true,
+      },
+      money: {
+        name: "Money",
+        scalarTypes: ["Decimal"],
+        convertedFrom: ["Float"],
+      },
+      varchar: {
+        name: "VarChar",
+        scalarTypes: ["String"],
+        withArguments: true,
+      },
+      bpchar: { name: "Char", scalarTypes: ["String"], withArguments: true },
+      text: { name: "Text", scalarTypes: ["String"] },
+      citext: { name: "Citext", scalarTypes: ["String"] },
+      uuid: { name: "Uuid", scalarTypes: ["String"] },
+      xml: { name: "Xml", scalarTypes: ["String"] },
+      inet: { name: "Inet", scalarTypes: ["String"] },
+      bit: { name: "Bit", scalarTypes: ["String"], withArguments: true },
+      varbit: { name: "VarBit", scalarTypes: ["String"], withArguments: true },
+      bool: { name: "Boolean", scalarTypes: ["Boolean"] },
+      timestamp: {
+        name: "Timestamp",
+        scalarTypes: ["DateTime"],
+        withArguments: true,
+      },
+      timestamptz: {
+        name: "Timestamptz",
+        scalarTypes: ["DateTime"],
+        withArguments: true,
+      },
+      date: { name: "Date", scalarTypes: ["DateTime"] },
+      time: { name: "Time", scalarTypes: ["DateTime"], withArguments: true },
+      timetz: {
+        name: "Timetz",
+        scalarTypes: ["DateTime"],
+        withArguments: true,
+      },
+      json: { name: "Json", scalarTypes: ["Json"] },
+      jsonb: { name: "JsonB", scalarTypes: ["Json"] },
+    },
+    defaults: {
+      String: "Text",
+      Int: "Integer",
+      BigInt: "BigInt",
+      Float: "DoublePrecision",
+      Decimal: "Decimal(65, 30)",
+      Boolean: "Boolean",
+      DateTime: "Timestamp(3)",
+      Json: "JsonB",
+    },
+    reportsArguments: false,
+  },
+  [DatabaseType.mysql]: {
+    types: {
+      // Prisma 1 reads tinyint(1) as Boolean
+      "tinyint(1)": {
+        name: "TinyInt",
+        scalarTypes: ["Boolean"],
+        withArguments: true,
+      },
+      tinyint: { name: "TinyInt", scalarTypes: ["Int"] },
+      "tinyint unsigned": { name: "UnsignedTinyInt", scalarTypes: ["Int"] },
+      smallint: { name: "SmallInt", scalarTypes: ["Int"] },
+      "smallint unsigned": { name: "UnsignedSmallInt", scalarTypes: ["Int"] },
+      mediumint: { name: "MediumInt", scalarTypes: ["Int"] },
+      "mediumint unsigned": {
+        name: "UnsignedMediumInt",
+        scalarTypes: ["Int"],
+      },
+      int: { name: "Int", scalarTypes: ["Int"] },
+      "int unsigned": { name: "UnsignedInt", scalarTypes: ["Int"] },
+      bigint: {
+        name: "BigInt",
+        scalarTypes: ["BigInt"],
+        convertedFrom: ["Int"],
+      },
+      "bigint unsigned": {
+        name: "UnsignedBigInt",
+        scalarTypes: ["BigInt"],
+        convertedFrom: ["Int"],
+      },
+      float: { name: "Float", scalarTypes: ["Float"] },
+      double: { name: "Double", scalarTypes: ["Float"] },
+      decimal: {
+        name: "Decimal",
+        scalarTypes: ["Decimal"],
+        convertedFrom: ["Float", "Int"],
+        withArguments: true,
+      },
+      char: { name: "Char", scalarTypes: ["String"], withArguments: true },
+      varchar: {
+        name: "VarChar",
+        scalarTypes: ["String"],
+        withArguments: true,
+      },
+      tinytext: { name: "TinyText", scalarTypes: ["String"] },
+      text: { name: "Text", scalarTypes: ["String"] },
+      mediumtext: { name: "MediumText", scalarTypes: ["String"] },
+      longtext: { name: "LongText", scalarTypes: ["String"] },
+      datetime: {
+        name: "DateTime",
+        scalarTypes: ["DateTime"],
+        withArguments: true,
+      },
+      timestamp: {
+        name: "Timestamp",
+        scalarTypes: ["DateTime"],
+        withArguments: true,
+      },
+      date: { name: "Date", scalarTypes: ["DateTime"] },
+      time: { name: "Time", scalarTypes: ["DateTime"], withArguments: true },
+      year: { name: "Year", scalarTypes: ["Int"] },
+      json: { name: "Json", scalarTypes: ["Json"] },
+    },
+    defaults: {
+      String: "VarChar(191)",
+      Int: "Int",
+      BigInt: "BigInt",
+      Float: "Double",
+      Decimal: "Decimal(65, 30)",
+      Boolean: "TinyInt(1)",
+      DateTime: "DateTime(3)",
+      Json: "Json",
+    },
+    reportsArguments: true,
+  },
+};
+
+/**
+ * A line of a model block, the columns are aligned like `prisma format` does
+ */
+type FieldLine = [string, string, string];
+
+/**
+ * The side holding the foreign key gets the `@relation(fields:, references:)` attribute
+ */
+type RelationSide = "foreignKey" | "reference";
+
+interface ForeignKey {
+  name: string;
+  /**
+   * The model already has a scalar field for the column of the relation
+   */
+  existing: boolean;
+}
+
+interface RenderContext {
+  databaseType: DatabaseType;
+  columnTypes: ColumnTypes;
+  warnings: IntrospectionWarning[];
+  /**
+   * Back relations added for relations only defined on one side, by type
+   */
+  backRelations: Map<IGQLType, FieldLine[]>;
+  /**
+   * Relation fields Prisma 2 can't express are missing
+   */
+  relationSides: Map<IGQLField, RelationSide>;
+  /**
+   * Scalar fields holding the foreign keys, by relation field
+   */
+  foreignKeys: Map<IGQLField, ForeignKey>;
+}
+
+function getIdField(type: IGQLType): IGQLField | undefined {
+  return type.fields.find(f => f.isId);
+}
+
+function getScalarType(typeName: string): string {
+  return scalarTypes[typeName as TypeIdentifier] || typeName;
+}
+
+/**
+ * Splits e.g. `int(10) unsigned` into `int unsigned` and `10`
+ */
+function parseColumnType(
+  columnType: string,
+): { name: string; args: string | null } {
+  const [, name, args, suffix] = /^([^(]*)(?:\((.*)\))?(.*)$/.exec(
+    columnType.trim().toLowerCase(),
+  )!;
+
+  return {
+    name: `${name} ${suffix.replace("zerofill", "")}`
+      .replace(/\s+/g, " ")
+      .trim(),
+    args:
+      args === undefined
+        ? null
+        : args
+            .split(",")
+            .map(arg => arg.trim())
+            .join(", "),
+  };
+}
+
+/**
+ * The `@db.` attribute of the column behind the field, and the scalar type it requires.
+ * Column types Prisma 2 can't express are reported, the default column type is assumed then.
+ */
+function getNativeType(
+  type: IGQLType,
+  field: IGQLField,
+  scalarType: string,
+  { databaseType, columnTypes, warnings }: RenderContext,
+): { scalarType: string; attribute: string | null } {
+  const nativeTypes = nativeTypesByDatabase[databaseType];
+  const columnType = (columnTypes[type.name] || {})[field.name];
+  const withDefault = (message: string) => {
+    warnings.push({
+      type: type.name,
+      field: field.name,
+      message: `${message} The default column type of ${scalarType} is assumed in schema.prisma.`,
+    });
+    return { scalarType, attribute: null };
+  };
+
+  if (!nativeTypes || !columnType) {
+    return { scalarType, attribute: null };
+  }
+
+  const { name, args } = parseColumnType(columnType);
+  const nativeType =
+    nativeTypes.types[columnType.trim().toLowerCase()] ||
+    nativeTypes.types[name];
+
+  if (!nativeType) {
+    return withDefault(
+      `The column type ${columnType} has no native type in Prisma 2.`,
+    );
+  }
+
+  const nativeScalarType = nativeType.scalarTypes.includes(scalarType)
+    ? scalarType
+    : (nativeType.convertedFrom || []).includes(scalarType)
+    ? nativeType.scalarTypes[0]
+    : null;
+
+  if (!nativeScalarType) {
+    return withDefault(
+      `The column type ${columnType} maps to @db.${nativeType.name}, which Prisma 2 doesn't allow on ${scalarType}.`,
+    );
+  }
+
+  const defaultType = nativeTypes.defaults[nativeScalarType];
+
+  if (
+    nativeType.withArguments &&
+    args === null &&
+    !nativeTypes.reportsArguments
+  ) {
+    // Most likely a column Prisma created itself
+    if (
+      nativeScalarType === scalarType &&
+      defaultType &&
+      defaultType.split("(")[0] === nativeType.name
+    ) {
+      return { scalarType: nativeScalarType, attribute: null };
+    }
+
+    return withDefault(
+      `The length or precision of the column type ${columnType} is unknown, so @db.${nativeType.name} can't be rendered.`,
+    );
+  }
+
+  const attribute =
+    nativeType.withArguments && args !== null
+      ? `${nativeType.name}(${args})`
+      : nativeType.name;
+
+  return {
+    scalarType: nativeScalarType,
+    attribute: attribute === defaultType ? null : `@db.${attribute}`,
+  };
+}
+
+function withModifiers(type: string, field: IGQLField): string {
+  if (field.isList) {
+    return `${type}[]`;
+  }
+
+  return field.isRequired ? type : `${type}?`;
+}
+
+function renderDefault(field: IGQLField): string | null {
+  const typeName = getFieldTypeName(field);
+
+  if (field.isId && field.idStrategy !== IdStrategy.None) {
+    switch (typeName) {
+      case "Int":
+        return "@default(autoincrement())";
+      case "ID":
+        return "@default(cuid())";
+      case "UUID":
+        return "@default(uuid())";
+    }
+  }
+
+  if (field.isCreatedAt) {
+    return "@default(now())";
+  }
+
+  if (field.defaultValue === null) {
+    return null;
+  }
+
+  const value = String(field.defaultValue);
+  const isEnum = typeof field.type !== "string";
+
+  return ["Int", "Float", "Long", "Boolean"].includes(typeName) || isEnum
+    ? `@default(${value})`
+    : `@default(${JSON.stringify(value)})`;
+}
+
+function renderMap(
+  databaseName: string | null,
+  attribute: "@map" | "@@map",
+): string | null {
+  return databaseName ? `${attribute}(${JSON.stringify(databaseName)})` : null;
+}
+
+function renderScalarField(
+  type: IGQLType,
+  field: IGQLField,
+  context: RenderContext,
+): FieldLine | null {
+  const { databaseType, warnings } = context;
+  const typeName = getFieldTypeName(field);
+
+  if (
+    field.isList &&
+    typeof field.type === "string" &&
+    databaseType !== DatabaseType.mongo
+  ) {
+    warnings.push({
+      type: type.name,
+      field: field.name,
+      message: `Prisma 1 stores scalar lists in a separate table, Prisma 2 expects a native array column. The field was left out of schema.prisma.`,
+    });
+    return null;
+  }
+
+  // Enums have no native type
+  const { scalarType, attribute: nativeType } =
+    typeof field.type === "string"
+      ? getNativeType(type, field, getScalarType(typeName), context)
+      : { scalarType: typeName, attribute: null };
+  const attributes = [
+    field.isId ? "@id" : null,
+    renderDefault(field),
+    field.isUnique && !field.isId ? "@unique" : null,
+    field.isUpdatedAt ? "@updatedAt" : null,
+    renderMap(
+      field.databaseName ||
+        (field.isId && databaseType === DatabaseType.mongo ? "_id" : null),
+      "@map",
+    ),
+    nativeType,
+  ].filter(Boolean);
+
+  return [field.name, withModifiers(scalarType, field), attributes.join(" ")];
+}
+
+function getRelationLink(field: IGQLField): string | null {
+  const directive = field.directives.find(
+    d => d.name === DirectiveKeys.relation && Boolean(d.arguments.link),
+  );
+  return directive ? String(directive.arguments.link) : null;
+}
+
+function isColumn(
+  type: IGQLType,
+  field: IGQLField,
+  { columnTypes }: RenderContext,
+): boolean {
+  return Boolean((columnTypes[type.name] || {})[field.name]);
+}
+
+/**
+ * The side of a 1:1 relation holding the foreign key: the one with an INLINE link,
+ * else the one stored in a column. Null when neither tells.
+ */
+function getOneToOneForeignKey(
+  type: IGQLType,
+  field: IGQLField,
+  other: IGQLField,
+  context: RenderContext,
+): IGQLField | null {
+  const relatedType = field.type as IGQLType;
+  const sides: Array<[IGQLType, IGQLField]> = [
+    [type, field],
+    [relatedType, other],
+  ];
+  const criteria = [
+    ([, f]: [IGQLType, IGQLField]) => getRelationLink(f) === "INLINE",
+    ([t, f]: [IGQLType, IGQLField]) => isColumn(t, f, context),
+    ([, f]: [IGQLType, IGQLField]) => f.databaseName !== null,
+  ];
+
+  for (const criterion of criteria) {
+    const matches = sides.filter(criterion);
+    if (matches.length === 1) {
+      return matches[0][1];
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Decides how both sides of the relation are rendered. Relations Prisma 2 can't
+ * express are left out with a warning.
+ */
+function resolveRelation(
+  type: IGQLType,
+  field: IGQLField,
+  context: RenderContext,
+) {
+  const relatedType = field.type as IGQLType;
+  const other = field.relatedField;
+  const link = getRelationLink(field) || (other && getRelationLink(other));
+  const skip = (reason: string) => {
+    context.warnings.push({
+      type: type.name,
+      field: field.name,
+      message: `${reason} The relation was left out of schema.prisma.`,
+    });
+  };
+
+  if (relatedType.isEmbedded) {
+    context.warnings.push({
+      type: type.name,
+      field: field.name,
+      message: `Embedded types have no equivalent in Prisma 2, the field was left out of schema.prisma.`,
+    });
+    return;
+  }
+
+  // n:m, Prisma 2 expects a list on both sides
+  if (field.isList && (!other || other.isList)) {
+    if (link === "INLINE") {
+      return skip(`Prisma 2 can't express a list of ids stored inline.`);
+    }
+
+    context.relationSides.set(field, "reference");
+    if (other) {
+      context.relationSides.set(other, "reference");
+    } else {
+      addBackRelation(type, field, context, true);
+    }
+    return;
+  }
+
+  if (link === "TABLE") {
+    return skip(
+      `Prisma 2 only stores n:m relations in a relation table, this one is not n:m.`,
+    );
+  }
+
+  const foreignKey = field.isList
+    ? other
+    : !other || other.isList
+    ? field
+    : getOneToOneForeignKey(type, field, other, context);
+
+  if (!foreignKey) {
+    return skip(
+      `The side holding the foreign key of the 1:1 relation to ${relatedType.name} can't be determined.`,
+    );
+  }
+
+  const referencedType = foreignKey.type as IGQLType;
+  if (!getIdField(referencedType)) {
+    return skip(`${referencedType.name} has no id field to reference.`);
+  }
+
+  context.relationSides.set(foreignKey, "foreignKey");
+  if (other) {
+    context.relationSides.set(
+      foreignKey === field ? other : field,
+      "reference",
+    );
+  } else {
+    addBackRelation(type, field, context, !field.isUnique);
+  }
+}
+
+function renderRelationAttribute(
+  relationName: string | null,
+  args: string[] = [],
+): string | null {
+  const allArgs = [
+    ...(relationName ? [`name: ${JSON.stringify(relationName)}`] : []),
+    ...args,
+  ];
+
+  return allArgs.length > 0 ? `@relation(${allArgs.join(", ")})` : null;
+}
+
+function addBackRelation(
+  type: IGQLType,
+  field: IGQLField,
+  { backRelations }: RenderContext,
+  isList: boolean,
+) {
+  const relatedType = field.type as IGQLType;
+  const lines = backRelations.get(relatedType) || [];
+  const baseName = lowerCase(isList ? plural(type.name) : type.name);
+  const isTaken = (name: string) =>
+    relatedType.fields.some(f => f.name === name) ||
+    lines.some(([lineName]) => lineName === name);
+  const name = isTaken(baseName)
+    ? `${baseName}${capitalize(field.name)}`
+    : baseName;
+
+  lines.push([
+    name,
+    isList ? `${type.name}[]` : `${type.name}?`,
+    renderRelationAttribute(field.relationName) || "",
+  ]);
+  backRelations.set(relatedType, lines);
+}
+
+function renderRelationField(
+  type: IGQLType,
+  field: IGQLField,
+  context: RenderContext,
+): FieldLine[] {
+  const relatedType = field.type as IGQLType;
+  const side = context.relationSides.get(field);
+
+  if (!side) {
+    return [];
+  }
+
+  if (side === "reference") {
+    return [
+      [
+        field.name,
+        // The side without the foreign key of a 1:1 relation is always optional
+        field.isList ? `${relatedType.name}[]` : `${relatedType.name}?`,
+        renderRelationAttribute(field.relationName) || "",
+      ],
+    ];
+  }
+
+  const fieldType = withModifiers(relatedType.name, field);
+  const relatedIdField = getIdField(relatedType)!;
+  const foreignKey = context.foreignKeys.get(field)!;
+  const relationLine: FieldLine = [
+    field.name,
+    fieldType,
+    renderRelationAttribute(field.relationName, [
+      `fields: [${foreignKey.name}]`,
+      `references: [${relatedIdField.name}]`,
+    ])!,
+  ];
+
+  if (foreignKey.existing) {
+    return [relationLine];
+  }
+
+  const { scalarType, attribute: nativeType } = getNativeType(
+    type,
+    field,
+    getScalarType(getFieldTypeName(relatedIdField)),
+    context,
+  );
+
+  return [
+    relationLine,
+    [
+      foreignKey.name,
+      field.isRequired ? scalarType : `${scalarType}?`,
+      [renderMap(field.databaseName || field.name, "@map"), nativeType]
+        .filter(Boolean)
+        .join(" "),
+    ],
+  ];
+}
+
+/**
+ * Names the scalar fields of the foreign keys. A scalar field already mapped to the column
+ * of the relation is used as is, taken names are reported.
+ */
+function resolveForeignKeys(type: IGQLType, context: RenderContext) {
+  const backRelations = context.backRelations.get(type) || [];
+  const takenNames = new Set([
+    ...type.fields.map(f => f.name),
+    ...backRelations.map(([name]) => name),
+  ]);
+  const isFree = (name: string) =>
+    !takenNames.has(name) && /^[A-Za-z][A-Za-z0-9_]*$/.test(name);
+
+  type.fields
+    .filter(field => context.relationSides.get(field) === "foreignKey")
+    .forEach(field => {
+      const column = field.databaseName || field.name;
+      const existing = type.fields.find(
+        f => !isRelationField(f) && (f.databaseName || f.name) === column,
+      );
+
+      if (existing) {
+        context.foreignKeys.set(field, { name: existing.name, existing: true });
+        return;
+      }
+
+      const preferredName = `${field.name}Id`;
+      let name = [preferredName, column].find(isFree);
+      for (let i = 2; !name; i++) {
+        name = isFree(`${preferredName}${i}`)
+          ? `${preferredName}${i}`
+          : undefined;
+      }
+
+      if (name !== preferredName) {
+        context.warnings.push({
+          type: type.name,
+          field: field.name,
+          message: `The name ${preferredName} is already taken, the foreign key of the relation is named ${name} in schema.prisma.`,
+        });
+      }
+
+      takenNames.add(name);
+      context.foreignKeys.set(field, { name, existing: false });
+    });
+}
+
+function renderLines(lines: FieldLine[]): string {
+  const widths = [0, 1].map(column =>
+    Math.max(...lines.map(line => line[column].length)),
+  );
+
+  return lines
+    .map(([name, type, attributes]) =>
+      `  ${name.padEnd(widths[0])} ${type.padEnd(
+        widths[1],
+      )} ${attributes}`.trimRight(),
+    )
+    .join("\n");
+}
+
+function renderModel(type: IGQLType, context: RenderContext): string {
+  resolveForeignKeys(type, context);
+
+  const lines = type.fields.reduce<FieldLine[]>((acc, field) => {
+    if (isRelationField(field)) {
+      return [...acc, ...renderRelationField(type, field, context)];
+    }
+
+    const line = renderScalarField(type, field, context);
+    return line ? [...acc, line] : acc;
+  }, []);
+  lines.push(...(context.backRelations.get(type) || []));
+  const getForeignKeyName = (field: IGQLField) => {
+    const foreignKey = context.foreignKeys.get(field);
+    return foreignKey ? foreignKey.name : `${field.name}Id`;
+  };
+
+  const blockAttributes = [
+    // Link tables of n:m relations have a compound primary key
+    ...(type.isRelationTable
+      ? [
+          `@@id([${type.fields
+            .filter(isRelationField)
+            .map(getForeignKeyName)
+            .join(", ")}])`,
+        ]
+      : []),
+    ...type.indices.map(
+      index =>
+        `${index.unique ? "@@unique" : "@@index"}([${index.fields
+          .map(f => (isRelationField(f) ? getForeignKeyName(f) : f.name))
+          .join(", ")}], name: ${JSON.stringify(index.name)})`,
+    ),
+    renderMap(type.databaseName, "@@map"),
+  ].filter(Boolean);
+
+  if (!getIdField(type) && !type.isRelationTable) {
+    context.warnings.push({
+      type: type.name,
+      field: null,
+      message: `Prisma 2 requires an @id or @@unique for every model, ${type.name} has none.`,
+    });
+  }
+
+  type.comments
+    .filter(comment => comment.isError)
+    .forEach(comment => {
+      context.warnings.push({
+        type: type.name,
+        field: null,
+        message: comment.text,
+      });
+    });
+
+  return [
+    `model ${type.name} {`,
+    renderLines(lines),
+    ...(blockAttributes.length > 0
+      ? ["", ...blockAttributes.map(a => `  ${a}`)]
+      : []),
+    "}",
+  ].join("\n");
+}
+
+function renderEnum(type: IGQLType): string {
+  const map = renderMap(type.databaseName, "@@map");
+
+  return [
+    `enum ${type.name} {`,
+    ...type.fields.map(value => `  ${value.name}`),
+    ...(map ? ["", `  ${map}`] : []),
+    "}",
+  ].join("\n");
+}
+
+/**
+ * Renders the datamodel in the Prisma 2 schema language. The back relations Prisma 2 requires
+ * are added, constructs without an equivalent are reported as warnings.
+ */
+export function renderPrisma2Schema(
+  datamodel: ISDL,
+  databaseType: DatabaseType,
+  columnTypes: ColumnTypes = {},
+): RenderedFile {
+  const context: RenderContext = {
+    databaseType,
+    columnTypes,
+    warnings: [],
+    backRelations: new Map(),
+    relationSides: new Map(),
+    foreignKeys: new Map(),
+  };
+
+  datamodel.types
+    .filter(type => type.isEmbedded)
+    .forEach(type => {
+      context.warnings.push({
+        type: type.name,
+        field: null,
+        message: `Embedded types have no equivalent in Prisma 2, the type was left out of schema.prisma.`,
+      });
+    });
+
+  const modelTypes = datamodel.types.filter(t => !t.isEnum && !t.isEmbedded);
+
+  // Both sides are decided at once, Prisma 2 requires both sides of a relation
+  const resolved = new Set<IGQLField>();
+  modelTypes.forEach(type => {
+    type.fields.filter(isRelationField).forEach(field => {
+      if (resolved.has(field)) {
+        return;
+      }
+      resolved.add(field);
+      if (field.relatedField) {
+        resolved.add(field.relatedField);
+      }
+
+      resolveRelation(type, field, context);
+    });
+  });
+
+  const content = [
+    `datasource db {\n  provider = "${providers[databaseType]}"\n  url      = env("DATABASE_URL")\n}`,
+    `generator client {\n  provider = "prisma-client-js"\n}`,
+    ...modelTypes.map(type => renderModel(type, context)),
+    ...datamodel.types.filter(t => t.isEnum).map(renderEnum),
+  ].join("\n\n");
+
+  return { content: `${content}\n`, warnings: context.warnings };
+}
@@ -0,0 +1,148 @@
+import * as path from "path";
+import { IntrospectionResult, IntrospectionWarning } from "../types";
+import {
+  DiagramOptions,
+  renderDotDiagram,
+  renderMermaidDiagram,
+} from "./diagram";
+import { renderHtmlDictionary, renderMarkdownDictionary } from "./dictionary";
+import { renderJsonSchemas } from "./jsonSchema";
+import { renderPrisma2Schema } from "./prisma2";
+import { renderTypeScript } from "./typescript";
+
+export interface RenderedFile {
+  /**
+   * Set by targets rendering several files, they're written into the directory of `getPath`
+   */
+  fileName?: string;
+  content: string;
+  /**
+   * Parts of the datamodel the target can't express
+   */
+  warnings: IntrospectionWarning[];
+}
+
+/**
+ * Settings of the targets, from flags and prisma-introspect.yml
+ */
+export type EmitOptions = DiagramOptions;
+
+/**
+ * Additional file generated from the introspected datamodel, chosen with --emit
+ */
+export interface EmitTarget {
+  name: string;
+  description: string;
+  /**
+   * The file, or the directory of the files, is written next to the datamodel
+   */
+  getPath: (datamodelPath: string) => string;
+  /**
+   * Rendered once from the merged datamodel, also when --split-schemas writes one datamodel per schema
+   */
+  singleFile?: boolean;
+  render: (result: IntrospectionResult, options: EmitOptions) => RenderedFile[];
+}
+
+function replaceExtension(filePath: string, extension: string): string {
+  return path.join(
+    path.dirname(filePath),
+    `${path.basename(filePath, path.extname(filePath))}${extension}`,
+  );
+}
+
+export const EMIT_TARGETS: EmitTarget[] = [
+  {
+    name: "ts",
+    description: "TypeScript type definitions",
+    getPath: datamodelPath => replaceExtension(datamodelPath, ".ts"),
+    render: result => [
+      {
+        content: renderTypeScript(result.datamodel),
+        warnings: [],
+      },
+    ],
+  },
+  {
+    name: "prisma2",
+    description: "Prisma 2 schema",
+    getPath: datamodelPath =>
+      path.join(path.dirname(datamodelPath), "schema.prisma"),
+    singleFile: true,
+    render: result => [
+      renderPrisma2Schema(
+        result.datamodel,
+        result.databaseType,
+        result.columnTypes,
+      ),
+    ],
+  },
+  {
+    name: "mermaid",
+    description: "Mermaid ER diagram",
+    getPath: datamodelPath => replaceExtension(datamodelPath, ".mmd"),
+    singleFile: true,
+    render: (result, options) => [
+      {
+        content: renderMermaidDiagram(result, options),
+        warnings: [],
+      },
+    ],
+  },
+  {
+    name: "dot",
+    description: "Graphviz ER diagram",
+    getPath: datamodelPath => replaceExtension(datamodelPath, ".dot"),
+    singleFile: true,
+    render: (result, options) => [
+      {
+        content: renderDotDiagram(result, options),
+        warnings: [],
+      },
+    ],
+  },
+  {
+    name: "md",
+    description: "Markdown data dictionary",
+    getPath: datamodelPath => replaceExtension(datamodelPath, ".md"),
+    render: result => [
+      {
+        content: renderMarkdownDictionary(result),
+        warnings: [],
+      },
+    ],
+  },
+  {
+    name: "html",
+    description: "HTML data dictionary",
+    getPath: datamodelPath => replaceExtension(datamodelPath, ".html"),
+    render: result => [
+      {
+        content: renderHtmlDictionary(result),
+        warnings: [],
+      },
+    ],
+  },
+  {
+    name: "json-schema",
+    description: "JSON Schemas, one per type",
+    getPath: datamodelPath =>
+      path.join(path.dirname(datamodelPath), "json-schema"),
+    singleFile: true,
+    render: result => renderJsonSchemas(result.datamodel),
+  },
+];
+
+export function getEmitTarget(name: string): EmitTarget {
+  const target = EMIT_TARGETS.find(t => t.name === name);
+
+  if (!target) {
+    throw new Error(
+      `Unknown emit target ${name}. The following are available: ${EMIT_TARGETS.map(
+        t => t.name,
+      ).join(", ")}`,
+    );
+  }
+
+  return target;
+}
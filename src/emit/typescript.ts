@@ -0,0 +1,85 @@
+import { IGQLField, IGQLType, ISDL, TypeIdentifier } from "prisma-datamodel";
+import { getFieldTypeName } from "../introspect/util";
+
+/**
+ * Types of the values returned by the database drivers
+ */
+const scalarTypes: Record<TypeIdentifier, string> = {
+  ID: "string",
+  UUID: "string",
+  String: "string",
+  Int: "number",
+  Long: "number",
+  Float: "number",
+  Boolean: "boolean",
+  DateTime: "Date",
+  Json: "any",
+};
+
+function renderComment(lines: string[], indent: string = ""): string {
+  return lines.length === 0
+    ? ""
+    : `${indent}/**\n${lines
+        .map(line => `${indent} * ${line}`)
+        .join("\n")}\n${indent} */\n`;
+}
+
+function getFieldType(field: IGQLField): string {
+  const typeName = getFieldTypeName(field);
+  const type =
+    typeof field.type === "string"
+      ? scalarTypes[typeName as TypeIdentifier] || "any"
+      : typeName;
+
+  if (field.isList) {
+    return `${type}[]`;
+  }
+
+  return field.isRequired ? type : `${type} | null`;
+}
+
+function renderField(field: IGQLField): string {
+  const comments = [
+    ...(field.databaseName ? [`Column ${field.databaseName}`] : []),
+    ...(field.relationName ? [`Relation ${field.relationName}`] : []),
+    ...field.comments.map(c => c.text),
+  ];
+
+  return `${renderComment(comments, "  ")}  ${field.name}: ${getFieldType(
+    field,
+  )};`;
+}
+
+function renderEnum(type: IGQLType): string {
+  return `export enum ${type.name} {\n${type.fields
+    .map(value => `  ${value.name} = "${value.name}",`)
+    .join("\n")}\n}`;
+}
+
+function renderInterface(type: IGQLType): string {
+  const comments = [
+    ...(type.databaseName ? [`Table ${type.databaseName}`] : []),
+    ...(type.isEmbedded ? ["Embedded type"] : []),
+    ...type.comments.map(c => c.text),
+  ];
+
+  return `${renderComment(comments)}export interface ${
+    type.name
+  } {\n${type.fields.map(renderField).join("\n")}\n}`;
+}
+
+/**
+ * Renders the datamodel as TypeScript interfaces and enums. Relation fields are typed
+ * with the interface of the related type, nullable fields as `T | null`.
+ */
+export function renderTypeScript(datamodel: ISDL): string {
+  const enums = datamodel.types.filter(t => t.isEnum).map(renderEnum);
+  const interfaces = datamodel.types
+    .filter(t => !t.isEnum)
+    .map(renderInterface);
+
+  return `// Generated by prisma introspect, don't edit this file\n\n${[
+    ...enums,
+    ...interfaces,
+  ].join("\n\n")}\n`;
+}
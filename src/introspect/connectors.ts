@@ -0,0 +1,309 @@
+import { MongoClient } from "mongodb";
+import { Connection, createConnection } from "mysql";
+import * as path from "path";
+import { Client as PGClient } from "pg";
+import { DatabaseType } from "prisma-datamodel";
+import { Connectors } from "prisma-db-introspection";
+import { IConnector } from "prisma-db-introspection/dist/common/connector";
+import { Database } from "sqlite3";
+import { PromptElement } from "../prompt-lib/types";
+import {
+  CONNECT_MONGO_ELEMENTS,
+  CONNECT_SERVER_ELEMENTS,
+  CONNECT_SQLITE_ELEMENTS,
+} from "../prompts/prompts-elements";
+import { DatabaseCredentials } from "../types";
+import { SqliteConnector, SqliteDatabaseClient } from "./sqlite";
+import { getSslOptions } from "./ssl";
+
+/**
+ * Everything the CLI needs to know about a database engine.
+ * Plugins are listed under `connectors` in prisma-introspect.yml, by path or package name,
+ * and export a plugin (or a list of them) as `module.exports` or as default export.
+ */
+export interface ConnectorPlugin<Client = any> {
+  /**
+   * Unique name, stored as `connector` in the credentials. The built-in connectors use the database type
+   */
+  name: string;
+  /**
+   * The datamodel flavour the connector produces, it decides how the datamodel is rendered
+   */
+  databaseType: DatabaseType;
+  displayName: string;
+  description: string;
+  /**
+   * Enables SSH tunnels for connectors reached through a host and port
+   */
+  defaultPort?: number;
+  /**
+   * Additional CLI flags, e.g. `{ "--cockroach-host": String }`
+   */
+  flags?: Record<string, StringConstructor | BooleanConstructor>;
+  /**
+   * Help text of each flag, by flag name
+   */
+  flagsHelp?: Record<string, string>;
+  /**
+   * Returns null when none of the plugin flags were provided
+   */
+  getCredentialsFromFlags?: (
+    args: Record<string, any>,
+  ) => Partial<DatabaseCredentials> | null;
+  /**
+   * Form of the interactive credentials step, the values are merged into the credentials
+   */
+  formElements: PromptElement<DatabaseCredentials>[];
+  connect: (credentials: DatabaseCredentials) => Promise<Client>;
+  disconnect: (client: Client) => Promise<void>;
+  createConnector: (client: Client) => IConnector;
+}
+
+function replaceLocalDockerHost(credentials: DatabaseCredentials) {
+  if (credentials.host) {
+    const replaceMap = {
+      "host.docker.internal": "localhost",
+      "docker.for.mac.localhost": "localhost",
+    } as any;
+    return {
+      ...credentials,
+      host: replaceMap[credentials.host] || credentials.host,
+    };
+  }
+  return credentials;
+}
+
+async function getConnectedMysqlClient(
+  credentials: DatabaseCredentials,
+): Promise<Connection> {
+  const sanitizedCredentials = replaceLocalDockerHost(credentials);
+  const client = createConnection({
+    ...sanitizedCredentials,
+    socketPath: sanitizedCredentials.socket,
+    ssl: getSslOptions(sanitizedCredentials),
+  });
+
+  await new Promise((resolve, reject) => {
+    client.connect(err => {
+      if (err) {
+        reject(err);
+      } else {
+        resolve();
+      }
+    });
+  });
+
+  return client;
+}
+
+async function getConnectedPostgresClient(
+  credentials: DatabaseCredentials,
+): Promise<PGClient> {
+  const sanitizedCredentials = replaceLocalDockerHost(credentials);
+  const client = new PGClient({
+    ...sanitizedCredentials,
+    // pg connects to the socket in the directory when the host is a path
+    host: sanitizedCredentials.socket || sanitizedCredentials.host,
+    ssl: getSslOptions(sanitizedCredentials),
+  });
+  await client.connect();
+  return client;
+}
+
+/**
+ * sqlite3 is an optional dependency with a native binding, it's only loaded
+ * when a SQLite database is introspected
+ */
+function requireSqlite3(): typeof import("sqlite3") {
+  try {
+    return require("sqlite3");
+  } catch (e) {
+    throw new Error(
+      `The sqlite3 package could not be loaded, install it to introspect SQLite databases: ${e.message}`,
+    );
+  }
+}
+
+function getConnectedSqliteDatabase(
+  credentials: DatabaseCredentials,
+): Promise<Database> {
+  return new Promise((resolve, reject) => {
+    if (!credentials.database) {
+      throw new Error(`Please provide the path of the SQLite database file`);
+    }
+
+    const sqlite3 = requireSqlite3();
+    // Opened read-only so that a wrong path doesn't create an empty database
+    const database = new sqlite3.Database(
+      path.resolve(credentials.database),
+      sqlite3.OPEN_READONLY,
+      err => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(database);
+        }
+      },
+    );
+  });
+}
+
+function getConnectedMongoClient(
+  credentials: DatabaseCredentials,
+): Promise<MongoClient> {
+  return new Promise((resolve, reject) => {
+    if (!credentials.uri) {
+      throw new Error(`Please provide the MongoDB connection string`);
+    }
+
+    MongoClient.connect(
+      credentials.uri,
+      { useNewUrlParser: true },
+      (err, client) => {
+        if (err) {
+          reject(err);
+        } else {
+          if (credentials.database) {
+            client.db(credentials.database);
+          }
+          resolve(client);
+        }
+      },
+    );
+  });
+}
+
+const builtInConnectors: ConnectorPlugin[] = [
+  {
+    name: DatabaseType.mysql,
+    databaseType: DatabaseType.mysql,
+    displayName: "MySQL",
+    description: "MySQL compliant databases like MySQL or MariaDB",
+    defaultPort: 3306,
+    formElements: CONNECT_SERVER_ELEMENTS(DatabaseType.mysql),
+    connect: getConnectedMysqlClient,
+    disconnect: async (client: Connection) => client.end(),
+    createConnector: client => Connectors.create(DatabaseType.mysql, client),
+  },
+  {
+    name: DatabaseType.postgres,
+    databaseType: DatabaseType.postgres,
+    displayName: "Postgres",
+    description: "PostgreSQL database",
+    defaultPort: 5432,
+    formElements: CONNECT_SERVER_ELEMENTS(DatabaseType.postgres),
+    connect: getConnectedPostgresClient,
+    disconnect: (client: PGClient) => client.end(),
+    createConnector: client => Connectors.create(DatabaseType.postgres, client),
+  },
+  {
+    name: DatabaseType.sqlite,
+    databaseType: DatabaseType.sqlite,
+    displayName: "SQLite",
+    description: "SQLite database file",
+    formElements: CONNECT_SQLITE_ELEMENTS,
+    connect: getConnectedSqliteDatabase,
+    disconnect: (database: Database) =>
+      new Promise<void>((resolve, reject) =>
+        database.close(err => (err ? reject(err) : resolve())),
+      ),
+    // SQLite is not part of the connectors shipped by prisma-db-introspection
+    createConnector: database =>
+      new SqliteConnector(new SqliteDatabaseClient(database)),
+  },
+  {
+    name: DatabaseType.mongo,
+    databaseType: DatabaseType.mongo,
+    displayName: "MongoDB",
+    description: "Mongo Database",
+    formElements: CONNECT_MONGO_ELEMENTS,
+    connect: getConnectedMongoClient,
+    disconnect: (client: MongoClient) => client.close(),
+    createConnector: client => Connectors.create(DatabaseType.mongo, client),
+  },
+];
+
+const plugins: ConnectorPlugin[] = [...builtInConnectors];
+
+/**
+ * Adds a connector, or replaces the one with the same name
+ */
+export function registerConnectorPlugin(plugin: ConnectorPlugin) {
+  const index = plugins.findIndex(p => p.name === plugin.name);
+
+  if (index === -1) {
+    plugins.push(plugin);
+  } else {
+    plugins[index] = plugin;
+  }
+}
+
+export function getConnectorPlugins(): ConnectorPlugin[] {
+  return plugins;
+}
+
+export function getConnectorPlugin(
+  credentials: Partial<Pick<DatabaseCredentials, "type" | "connector">>,
+): ConnectorPlugin {
+  const name = credentials.connector || credentials.type;
+  const plugin = plugins.find(p => p.name === name);
+
+  if (!plugin) {
+    throw new Error(
+      `No connector named "${name}" is registered. The following are available: ${plugins
+        .map(p => p.name)
+        .join(", ")}`,
+    );
+  }
+
+  return plugin;
+}
+
+const requiredPluginFields: (keyof ConnectorPlugin)[] = [
+  "name",
+  "databaseType",
+  "displayName",
+  "formElements",
+  "connect",
+  "disconnect",
+  "createConnector",
+];
+
+/**
+ * Requires and registers the plugins. Relative paths are resolved from `baseDir`,
+ * other names are resolved as packages.
+ */
+export function loadConnectorPlugins(
+  modules: string[],
+  baseDir: string,
+): ConnectorPlugin[] {
+  return modules.reduce<ConnectorPlugin[]>((acc, moduleName) => {
+    const modulePath = moduleName.startsWith(".")
+      ? path.resolve(baseDir, moduleName)
+      : moduleName;
+    const exported = require(modulePath);
+    const moduleExport =
+      exported && exported.default ? exported.default : exported;
+    const modulePlugins: ConnectorPlugin[] = Array.isArray(moduleExport)
+      ? moduleExport
+      : [moduleExport];
+
+    modulePlugins.forEach(plugin => {
+      const missingFields = requiredPluginFields.filter(
+        field => !plugin || plugin[field] === undefined,
+      );
+
+      if (missingFields.length > 0) {
+        throw new Error(
+          `The connector plugin ${moduleName} is invalid. It's missing ${missingFields.join(
+            ", ",
+          )}`,
+        );
+      }
+
+      registerConnectorPlugin(plugin);
+    });
+
+    return [...acc, ...modulePlugins];
+  }, []);
+}
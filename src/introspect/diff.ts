@@ -0,0 +1,276 @@
+import chalk from "chalk";
+import { IDirectiveInfo, IGQLField, IGQLType, ISDL } from "prisma-datamodel";
+import { getFieldTypeName, isRelationField } from "./util";
+
+export type ChangeKind = "added" | "removed" | "changed";
+
+export interface FieldChange {
+  kind: ChangeKind;
+  name: string;
+  isRelation: boolean;
+  /**
+   * Human readable list of what changed on the field, e.g. `type: String -> Int`
+   */
+  details: string[];
+}
+
+export interface TypeChange {
+  kind: ChangeKind;
+  name: string;
+  isEnum: boolean;
+  fields: FieldChange[];
+  /**
+   * Human readable list of directives added or removed on the type itself
+   */
+  details: string[];
+}
+
+export interface DatamodelDiff {
+  types: TypeChange[];
+}
+
+export function hasChanges(diff: DatamodelDiff): boolean {
+  return diff.types.length > 0;
+}
+
+/**
+ * Structurally compares two datamodels. `previous` is usually the checked-in datamodel
+ * and `next` the one derived from the database.
+ */
+export function diffDatamodels(previous: ISDL, next: ISDL): DatamodelDiff {
+  const previousTypes = keyByName(previous.types);
+  const nextTypes = keyByName(next.types);
+  const types: TypeChange[] = [];
+
+  next.types.forEach(nextType => {
+    const previousType = previousTypes[nextType.name];
+
+    if (!previousType) {
+      types.push({
+        kind: "added",
+        name: nextType.name,
+        isEnum: nextType.isEnum,
+        fields: [],
+        details: [],
+      });
+      return;
+    }
+
+    const typeChange = diffTypes(previousType, nextType);
+    if (typeChange) {
+      types.push(typeChange);
+    }
+  });
+
+  previous.types
+    .filter(previousType => !nextTypes[previousType.name])
+    .forEach(previousType => {
+      types.push({
+        kind: "removed",
+        name: previousType.name,
+        isEnum: previousType.isEnum,
+        fields: [],
+        details: [],
+      });
+    });
+
+  return { types };
+}
+
+function diffTypes(previous: IGQLType, next: IGQLType): TypeChange | null {
+  const details: string[] = [];
+
+  if (previous.isEnum !== next.isEnum) {
+    details.push(
+      `kind: ${previous.isEnum ? "enum" : "type"} -> ${
+        next.isEnum ? "enum" : "type"
+      }`,
+    );
+  }
+
+  details.push(
+    ...diffDirectives(getTypeDirectives(previous), getTypeDirectives(next)),
+  );
+
+  const previousFields = keyByName(previous.fields);
+  const nextFields = keyByName(next.fields);
+  const fields: FieldChange[] = [];
+
+  next.fields.forEach(nextField => {
+    const previousField = previousFields[nextField.name];
+
+    if (!previousField) {
+      fields.push({
+        kind: "added",
+        name: nextField.name,
+        isRelation: isRelationField(nextField),
+        details: [renderFieldSignature(nextField)],
+      });
+      return;
+    }
+
+    const fieldDetails: string[] = [];
+    const previousSignature = renderFieldType(previousField);
+    const nextSignature = renderFieldType(nextField);
+
+    if (previousSignature !== nextSignature) {
+      fieldDetails.push(`type: ${previousSignature} -> ${nextSignature}`);
+    }
+
+    fieldDetails.push(
+      ...diffDirectives(
+        getFieldDirectives(previousField),
+        getFieldDirectives(nextField),
+      ),
+    );
+
+    if (fieldDetails.length > 0) {
+      fields.push({
+        kind: "changed",
+        name: nextField.name,
+        isRelation:
+          isRelationField(nextField) || isRelationField(previousField),
+        details: fieldDetails,
+      });
+    }
+  });
+
+  previous.fields
+    .filter(previousField => !nextFields[previousField.name])
+    .forEach(previousField => {
+      fields.push({
+        kind: "removed",
+        name: previousField.name,
+        isRelation: isRelationField(previousField),
+        details: [renderFieldSignature(previousField)],
+      });
+    });
+
+  if (details.length === 0 && fields.length === 0) {
+    return null;
+  }
+
+  return {
+    kind: "changed",
+    name: next.name,
+    isEnum: next.isEnum,
+    fields,
+    details,
+  };
+}
+
+function diffDirectives(previous: string[], next: string[]): string[] {
+  return [
+    ...next.filter(d => !previous.includes(d)).map(d => `added ${d}`),
+    ...previous.filter(d => !next.includes(d)).map(d => `removed ${d}`),
+  ];
+}
+
+/**
+ * Some directives are parsed into first-class properties of the datamodel,
+ * they are turned back into directives so that they can be compared
+ */
+function getTypeDirectives(type: IGQLType): string[] {
+  const directives = type.directives.map(renderDirective);
+
+  if (type.databaseName) {
+    directives.push(`@db(name: "${type.databaseName}")`);
+  }
+  if (type.isEmbedded) {
+    directives.push("@embedded");
+  }
+
+  return directives.sort();
+}
+
+function getFieldDirectives(field: IGQLField): string[] {
+  const directives = field.directives.map(renderDirective);
+
+  if (field.isId) {
+    directives.push(
+      field.idStrategy ? `@id(strategy: ${field.idStrategy})` : "@id",
+    );
+  }
+  if (field.isUnique) {
+    directives.push("@unique");
+  }
+  if (field.isCreatedAt) {
+    directives.push("@createdAt");
+  }
+  if (field.isUpdatedAt) {
+    directives.push("@updatedAt");
+  }
+  if (field.defaultValue !== null && field.defaultValue !== undefined) {
+    directives.push(`@default(value: ${field.defaultValue})`);
+  }
+  if (field.relationName) {
+    directives.push(`@relation(name: "${field.relationName}")`);
+  }
+  if (field.databaseName) {
+    directives.push(`@db(name: "${field.databaseName}")`);
+  }
+
+  return directives.sort();
+}
+
+function renderDirective(directive: IDirectiveInfo): string {
+  const args = Object.keys(directive.arguments)
+    .sort()
+    .map(key => `${key}: ${directive.arguments[key]}`);
+
+  return args.length > 0
+    ? `@${directive.name}(${args.join(", ")})`
+    : `@${directive.name}`;
+}
+
+function renderFieldType(field: IGQLField): string {
+  const typeName = getFieldTypeName(field);
+  const required = field.isRequired ? "!" : "";
+
+  return field.isList ? `[${typeName}!]${required}` : `${typeName}${required}`;
+}
+
+function renderFieldSignature(field: IGQLField): string {
+  return [renderFieldType(field), ...getFieldDirectives(field)].join(" ");
+}
+
+function keyByName<T extends { name: string }>(
+  elements: T[],
+): Record<string, T> {
+  return elements.reduce<Record<string, T>>((acc, element) => {
+    acc[element.name] = element;
+    return acc;
+  }, {});
+}
+
+const changeSymbols: Record<ChangeKind, string> = {
+  added: chalk.green("+"),
+  removed: chalk.red("-"),
+  changed: chalk.yellow("~"),
+};
+
+export function renderDatamodelDiff(diff: DatamodelDiff): string {
+  if (!hasChanges(diff)) {
+    return "The database is in sync with the datamodel.";
+  }
+
+  return diff.types
+    .map(type => {
+      const keyword = type.isEnum ? "enum" : "type";
+      const lines = [
+        `${changeSymbols[type.kind]} ${keyword} ${chalk.bold(type.name)}`,
+        ...type.details.map(detail => `    ${detail}`),
+      ];
+
+      type.fields.forEach(field => {
+        const relation = field.isRelation ? chalk.dim(" (relation)") : "";
+        lines.push(
+          `  ${changeSymbols[field.kind]} ${field.name}${relation}`,
+          ...field.details.map(detail => `      ${detail}`),
+        );
+      });
+
+      return lines.join("\n");
+    })
+    .join("\n\n");
+}
@@ -0,0 +1,132 @@
+/**
+ * Documented in the help of the command, don't change the existing values
+ */
+export enum ExitCode {
+  Success = 0,
+  /**
+   * `--check` found differences between the database and the datamodel
+   */
+  DatamodelDrift = 1,
+  UnknownError = 2,
+  AuthenticationFailed = 3,
+  HostUnreachable = 4,
+  TlsFailure = 5,
+  SchemaNotFound = 6,
+  EmptyDatabase = 7,
+  InvalidPrismaYml = 8,
+}
+
+export class IntrospectionError extends Error {
+  constructor(
+    message: string,
+    public exitCode: ExitCode,
+    public hint?: string,
+  ) {
+    super(message);
+  }
+
+  /**
+   * Name of the exit code, e.g. `AuthenticationFailed`
+   */
+  get kind(): string {
+    return ExitCode[this.exitCode];
+  }
+}
+
+const authenticationErrorCodes = [
+  "28P01", // Postgres invalid_password
+  "28000", // Postgres invalid_authorization_specification
+  "ER_ACCESS_DENIED_ERROR",
+  "ER_DBACCESS_DENIED_ERROR",
+  18, // Mongo AuthenticationFailed
+];
+
+const tlsErrorCodes = [
+  "DEPTH_ZERO_SELF_SIGNED_CERT",
+  "SELF_SIGNED_CERT_IN_CHAIN",
+  "UNABLE_TO_VERIFY_LEAF_SIGNATURE",
+  "UNABLE_TO_GET_ISSUER_CERT_LOCALLY",
+  "CERT_HAS_EXPIRED",
+  "ERR_TLS_CERT_ALTNAME_INVALID",
+  "HANDSHAKE_NO_SSL_SUPPORT",
+  "HANDSHAKE_SSL_ERROR",
+];
+
+const unreachableHints: Record<string, string> = {
+  ECONNREFUSED:
+    "Nothing is listening on this address. Is the database running? If it runs in docker, is your docker container running and its port published?",
+  ENOTFOUND:
+    "The host name could not be resolved. Check it for typos. Docker service names only resolve inside the docker network, use localhost instead.",
+  EAI_AGAIN:
+    "The host name could not be resolved. Check your network connection and DNS settings.",
+  ETIMEDOUT:
+    "The connection timed out. Check that a firewall allows the connection, or use --ssh-host to connect through a bastion host.",
+  EHOSTUNREACH:
+    "The host can't be reached from this machine. Check your network or use --ssh-host to connect through a bastion host.",
+  ENOENT:
+    "The socket does not exist. Check the path and that the database is running.",
+  SQLITE_CANTOPEN:
+    "The SQLite database file could not be opened. Check the path and its permissions.",
+};
+
+/**
+ * Turns errors thrown by the database drivers into errors with an exit code and a hint
+ */
+export function classifyError(
+  error: any,
+  message: string = error.message,
+): IntrospectionError {
+  if (error instanceof IntrospectionError) {
+    return error;
+  }
+
+  const code = error.code;
+
+  if (
+    authenticationErrorCodes.includes(code) ||
+    /authentication failed/i.test(error.message)
+  ) {
+    return new IntrospectionError(
+      message,
+      ExitCode.AuthenticationFailed,
+      "Check the user and password. Make sure the user is allowed to connect from this host.",
+    );
+  }
+
+  if (
+    tlsErrorCodes.includes(code) ||
+    (typeof code === "string" &&
+      (code.startsWith("ERR_TLS_") || code.startsWith("ERR_SSL_"))) ||
+    // pg rejects without a code when the server refuses TLS
+    /server does not support SSL connections/i.test(error.message)
+  ) {
+    return new IntrospectionError(
+      message,
+      ExitCode.TlsFailure,
+      "Check --ssl-mode and --ssl-ca. Use --ssl-mode require to encrypt without verifying the certificate, or --ssl-mode disable if the server doesn't support TLS.",
+    );
+  }
+
+  // ENOENT is also thrown for missing local files, like --password-file or the SSH key.
+  // Only a failed connect means a missing socket.
+  if (
+    unreachableHints[code] &&
+    (code !== "ENOENT" || error.syscall === "connect")
+  ) {
+    return new IntrospectionError(
+      message,
+      ExitCode.HostUnreachable,
+      unreachableHints[code],
+    );
+  }
+
+  if (error.name === "MongoNetworkError") {
+    return new IntrospectionError(
+      message,
+      ExitCode.HostUnreachable,
+      unreachableHints.ECONNREFUSED,
+    );
+  }
+
+  return new IntrospectionError(message, ExitCode.UnknownError);
+}
@@ -0,0 +1,86 @@
+import { IGQLType, ISDL } from "prisma-datamodel";
+import { IntrospectionWarning } from "../types";
+import { isRelationField } from "./util";
+
+export interface TypeFilters {
+  include?: string[];
+  exclude?: string[];
+}
+
+/**
+ * Supports `*` (any characters) and `?` (a single character)
+ */
+export function globToRegExp(glob: string): RegExp {
+  const pattern = glob
+    .split("")
+    .map(char => {
+      if (char === "*") {
+        return ".*";
+      }
+      if (char === "?") {
+        return ".";
+      }
+      return char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    })
+    .join("");
+
+  return new RegExp(`^${pattern}$`);
+}
+
+function matchesAny(type: IGQLType, globs: RegExp[]): boolean {
+  return globs.some(
+    glob =>
+      glob.test(type.name) ||
+      (type.databaseName !== null && glob.test(type.databaseName)),
+  );
+}
+
+/**
+ * Enums and embedded types are not backed by a table, they are kept as long as they are used
+ */
+function isFilterable(type: IGQLType): boolean {
+  return !type.isEnum && !type.isEmbedded;
+}
+
+/**
+ * Removes the tables not matching the filters from the datamodel.
+ * Relation fields pointing to a removed table are dropped as well and reported as warnings.
+ */
+export function filterDatamodel(
+  datamodel: ISDL,
+  { include = [], exclude = [] }: TypeFilters,
+): { datamodel: ISDL; warnings: IntrospectionWarning[] } {
+  if (include.length === 0 && exclude.length === 0) {
+    return { datamodel, warnings: [] };
+  }
+
+  const includeGlobs = include.map(globToRegExp);
+  const excludeGlobs = exclude.map(globToRegExp);
+
+  const isKept = (type: IGQLType) =>
+    !isFilterable(type) ||
+    ((includeGlobs.length === 0 || matchesAny(type, includeGlobs)) &&
+      !matchesAny(type, excludeGlobs));
+
+  const keptTypes = datamodel.types.filter(isKept);
+  const warnings: IntrospectionWarning[] = [];
+
+  keptTypes.forEach(type => {
+    type.fields = type.fields.filter(field => {
+      if (!isRelationField(field) || isKept(field.type as IGQLType)) {
+        return true;
+      }
+
+      warnings.push({
+        type: type.name,
+        field: field.name,
+        message: `The relation to the filtered out type ${
+          (field.type as IGQLType).name
+        } was removed.`,
+      });
+      return false;
+    });
+  });
+
+  return { datamodel: { ...datamodel, types: keptTypes }, warnings };
+}
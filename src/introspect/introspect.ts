@@ -0,0 +1,220 @@
+import { DatabaseType, ISDL } from "prisma-datamodel";
+import {
+  ColumnTypes,
+  DatamodelVersion,
+  IntrospectionResult,
+  IntrospectionWarning,
+  SchemaSummary,
+} from "../types";
+import { ExitCode, IntrospectionError } from "./errors";
+import { filterDatamodel, TypeFilters } from "./filter";
+import { mergeDatamodels } from "./merge";
+import { applyNamingStrategies, NamingStrategies } from "./naming";
+import {
+  applyOverrides,
+  IntrospectionOverrides,
+  mergeOverrideWarnings,
+} from "./overrides";
+import {
+  ConnectorData,
+  createRenderer,
+  getTableColumnTypes,
+  introspectConnector,
+  sum,
+} from "./util";
+
+export interface IntrospectDatabaseOptions {
+  /**
+   * Used as reference to keep the names and directives of an existing datamodel
+   */
+  existingDatamodel?: ISDL | null;
+  filters?: TypeFilters;
+  naming?: NamingStrategies;
+  /**
+   * Applied last, so that hand-curated names win over the naming strategies
+   */
+  overrides?: IntrospectionOverrides;
+  /**
+   * Default: 1.1
+   */
+  datamodelVersion?: DatamodelVersion;
+}
+
+/**
+ * Introspects a single schema over an already connected connector
+ */
+export async function introspectDatabase(
+  connectorData: ConnectorData,
+  {
+    existingDatamodel,
+    filters = {},
+    naming,
+    overrides,
+    datamodelVersion = "1.1",
+  }: IntrospectDatabaseOptions = {},
+): Promise<IntrospectionResult> {
+  const { databaseName } = connectorData;
+
+  const before = Date.now();
+  const introspection = await introspectConnector(connectorData);
+  const introspected = Date.now();
+  const normalizedSdl = existingDatamodel
+    ? await introspection.getNormalizedDatamodel(existingDatamodel)
+    : await introspection.getNormalizedDatamodel();
+  const { datamodel: filteredSdl, warnings: filterWarnings } = filterDatamodel(
+    normalizedSdl,
+    filters,
+  );
+  const {
+    datamodel: namedSdl,
+    warnings: namingWarnings,
+  } = applyNamingStrategies(filteredSdl, naming);
+  const { datamodel: sdl, warnings: overrideWarnings } = applyOverrides(
+    namedSdl,
+    overrides,
+  );
+  const warnings = [...filterWarnings, ...namingWarnings, ...overrideWarnings];
+
+  const renderedSdl = renderDatamodel(
+    sdl,
+    introspection.databaseType,
+    datamodelVersion,
+  );
+  const timings = {
+    introspection: introspected - before,
+    rendering: Date.now() - introspected,
+  };
+
+  const numTables = sdl.types.length;
+  if (numTables === 0 && normalizedSdl.types.length > 0) {
+    throw new IntrospectionError(
+      "None of the database tables matched the include and exclude filters. Please check your filters.",
+      ExitCode.EmptyDatabase,
+      "Check --include, --exclude and prisma-introspect.yml. Globs are matched against the table names.",
+    );
+  }
+  if (numTables === 0) {
+    throw new IntrospectionError(
+      "The provided database doesn't contain any tables. Please provide another database.",
+      ExitCode.EmptyDatabase,
+      "Make sure the migrations of your project ran against this database.",
+    );
+  }
+
+  return {
+    sdl: renderedSdl,
+    datamodel: sdl,
+    columnTypes: getColumnTypes(sdl, getTableColumnTypes(introspection)),
+    numTables,
+    referenceDatamodelExists: Boolean(existingDatamodel),
+    databaseType: introspection.databaseType,
+    databaseName,
+    datamodelVersion,
+    timings,
+    warnings,
+    schemas: [
+      {
+        name: databaseName,
+        numTables,
+        timings,
+        types: sdl.types.map(type => type.name),
+      },
+    ],
+  };
+}
+
+/**
+ * Looks up the column types by the table and column names the types and fields point to
+ */
+function getColumnTypes(
+  datamodel: ISDL,
+  tableColumnTypes: Record<string, Record<string, string>>,
+): ColumnTypes {
+  return datamodel.types
+    .filter(type => !type.isEnum)
+    .reduce<ColumnTypes>((acc, type) => {
+      const columns = tableColumnTypes[type.databaseName || type.name] || {};
+
+      return {
+        ...acc,
+        [type.name]: type.fields.reduce<Record<string, string>>(
+          (fields, field) => {
+            const columnType = columns[field.databaseName || field.name];
+            return columnType
+              ? { ...fields, [field.name]: columnType }
+              : fields;
+          },
+          {},
+        ),
+      };
+    }, {});
+}
+
+export function renderDatamodel(
+  datamodel: ISDL,
+  databaseType: DatabaseType,
+  datamodelVersion: DatamodelVersion = "1.1",
+): string {
+  return createRenderer(databaseType, datamodelVersion).render(datamodel);
+}
+
+/**
+ * Combines the results of several schemas into a single datamodel
+ */
+export function mergeIntrospectionResults(
+  results: IntrospectionResult[],
+): IntrospectionResult {
+  if (results.length === 1) {
+    return results[0];
+  }
+
+  const { databaseType, datamodelVersion } = results[0];
+  const { datamodel, warnings, typesBySchema } = mergeDatamodels(
+    results.map(result => ({
+      schema: result.databaseName,
+      datamodel: result.datamodel,
+    })),
+  );
+
+  return {
+    sdl: renderDatamodel(datamodel, databaseType, datamodelVersion),
+    datamodel,
+    // Under the names the types got while merging
+    columnTypes: results.reduce<ColumnTypes>(
+      (acc, r) => ({
+        ...acc,
+        ...r.datamodel.types.reduce<ColumnTypes>((types, type, i) => {
+          const name = typesBySchema[r.databaseName][i];
+          return r.columnTypes[type.name]
+            ? { ...types, [name]: r.columnTypes[type.name] }
+            : types;
+        }, {}),
+      }),
+      {},
+    ),
+    numTables: datamodel.types.length,
+    referenceDatamodelExists: results.some(r => r.referenceDatamodelExists),
+    databaseType,
+    databaseName: results.map(r => r.databaseName).join(","),
+    datamodelVersion,
+    timings: {
+      introspection: sum(results.map(r => r.timings.introspection)),
+      rendering: sum(results.map(r => r.timings.rendering)),
+    },
+    warnings: [
+      ...mergeOverrideWarnings(results.map(r => r.warnings)),
+      ...warnings,
+    ],
+    schemas: results.reduce<SchemaSummary[]>(
+      (acc, r) => [
+        ...acc,
+        // The types keep the names they got while merging
+        ...r.schemas.map(schema => ({
+          ...schema,
+          types: typesBySchema[schema.name] || schema.types,
+        })),
+      ],
+      [],
+    ),
+  };
+}
@@ -0,0 +1,254 @@
+import { DatabaseType, IGQLField, IGQLType, ISDL } from "prisma-datamodel";
+import {
+  DatamodelVersion,
+  EmittedFile,
+  IntrospectionResult,
+  IntrospectionTimings,
+  IntrospectionWarning,
+  SchemaSummary,
+} from "../types";
+import { DatamodelDiff } from "./diff";
+import { IntrospectionError } from "./errors";
+import { getFieldTypeName, isRelationField } from "./util";
+
+/**
+ * Bump this whenever a field is removed or changes its meaning.
+ * Adding new fields is not a breaking change.
+ */
+export const JSON_OUTPUT_VERSION = 1;
+
+export interface JsonField {
+  name: string;
+  type: string;
+  isList: boolean;
+  isRequired: boolean;
+  isId: boolean;
+  isUnique: boolean;
+  isRelation: boolean;
+  defaultValue: string | number | null;
+  databaseName: string | null;
+  relationName: string | null;
+}
+
+export interface JsonType {
+  name: string;
+  databaseName: string | null;
+  isEmbedded: boolean;
+  fields: JsonField[];
+}
+
+export interface JsonEnum {
+  name: string;
+  values: string[];
+}
+
+export interface JsonRelationSide {
+  type: string;
+  field: string | null;
+}
+
+export interface JsonRelation {
+  name: string | null;
+  cardinality: "1:1" | "1:n" | "n:m";
+  from: JsonRelationSide;
+  to: JsonRelationSide;
+}
+
+export interface JsonEmittedFile {
+  target: string;
+  file: string;
+}
+
+export interface JsonOutput {
+  version: number;
+  databaseType: DatabaseType;
+  datamodelVersion: DatamodelVersion;
+  schema: string;
+  schemas: SchemaSummary[];
+  timings: IntrospectionTimings;
+  /**
+   * Set when a single datamodel file has been written
+   */
+  outputFile: string | null;
+  outputFiles: string[];
+  /**
+   * Files of the --emit targets
+   */
+  emittedFiles: JsonEmittedFile[];
+  types: JsonType[];
+  enums: JsonEnum[];
+  relations: JsonRelation[];
+  warnings: IntrospectionWarning[];
+  /**
+   * Set with --diff and --check, no file is written then
+   */
+  diff: DatamodelDiff | null;
+}
+
+export function toJsonOutput(
+  result: IntrospectionResult,
+  outputFiles: string[],
+  emittedFiles: EmittedFile[] = [],
+  diff: DatamodelDiff | null = null,
+): JsonOutput {
+  const { datamodel } = result;
+
+  return {
+    version: JSON_OUTPUT_VERSION,
+    databaseType: result.databaseType,
+    datamodelVersion: result.datamodelVersion,
+    schema: result.databaseName,
+    schemas: result.schemas,
+    timings: result.timings,
+    outputFile: outputFiles.length === 1 ? outputFiles[0] : null,
+    outputFiles,
+    emittedFiles: emittedFiles.map(({ target, fileName }) => ({
+      target,
+      file: fileName,
+    })),
+    types: datamodel.types.filter(t => !t.isEnum).map(toJsonType),
+    enums: datamodel.types
+      .filter(t => t.isEnum)
+      .map(t => ({ name: t.name, values: t.fields.map(f => f.name) })),
+    relations: getRelations(datamodel),
+    warnings: [
+      ...result.warnings,
+      ...getWarnings(datamodel),
+      ...emittedFiles.reduce<IntrospectionWarning[]>(
+        (acc, file) => [...acc, ...file.warnings],
+        [],
+      ),
+    ],
+    diff,
+  };
+}
+
+export function renderJsonOutput(
+  result: IntrospectionResult,
+  outputFiles: string[],
+  emittedFiles: EmittedFile[] = [],
+  diff: DatamodelDiff | null = null,
+): string {
+  return JSON.stringify(
+    toJsonOutput(result, outputFiles, emittedFiles, diff),
+    null,
+    2,
+  );
+}
+
+export function renderJsonError(error: IntrospectionError): string {
+  return JSON.stringify(
+    {
+      version: JSON_OUTPUT_VERSION,
+      error: {
+        message: error.message,
+        kind: error.kind,
+        exitCode: error.exitCode,
+        hint: error.hint || null,
+      },
+    },
+    null,
+    2,
+  );
+}
+
+function toJsonType(type: IGQLType): JsonType {
+  return {
+    name: type.name,
+    databaseName: type.databaseName,
+    isEmbedded: type.isEmbedded,
+    fields: type.fields.map(toJsonField),
+  };
+}
+
+function toJsonField(field: IGQLField): JsonField {
+  return {
+    name: field.name,
+    type: getFieldTypeName(field),
+    isList: field.isList,
+    isRequired: field.isRequired,
+    isId: field.isId,
+    isUnique: field.isUnique,
+    isRelation: isRelationField(field),
+    defaultValue: field.defaultValue,
+    databaseName: field.databaseName,
+    relationName: field.relationName,
+  };
+}
+
+/**
+ * Both sides of a relation are listed as fields, they are merged into a single relation here
+ */
+function getRelations(datamodel: ISDL): JsonRelation[] {
+  const seen = new Set<IGQLField>();
+  const relations: JsonRelation[] = [];
+
+  datamodel.types.forEach(type => {
+    type.fields.filter(isRelationField).forEach(field => {
+      if (seen.has(field)) {
+        return;
+      }
+      seen.add(field);
+
+      const relatedField = field.relatedField;
+      if (relatedField) {
+        seen.add(relatedField);
+      }
+
+      const lists = [field.isList, relatedField ? relatedField.isList : false];
+      const cardinality =
+        lists[0] && lists[1] ? "n:m" : lists[0] || lists[1] ? "1:n" : "1:1";
+
+      relations.push({
+        name: field.relationName,
+        cardinality,
+        from: { type: type.name, field: field.name },
+        to: {
+          type: (field.type as IGQLType).name,
+          field: relatedField ? relatedField.name : null,
+        },
+      });
+    });
+  });
+
+  return relations;
+}
+
+function getWarnings(datamodel: ISDL): IntrospectionWarning[] {
+  const warnings: IntrospectionWarning[] = [];
+
+  datamodel.types.forEach(type => {
+    type.comments
+      .filter(c => c.isError)
+      .forEach(c =>
+        warnings.push({ type: type.name, field: null, message: c.text }),
+      );
+
+    if (
+      !type.isEnum &&
+      !type.isEmbedded &&
+      !type.isRelationTable &&
+      !type.fields.some(f => f.isId)
+    ) {
+      warnings.push({
+        type: type.name,
+        field: null,
+        message: "The type has no @id field.",
+      });
+    }
+
+    type.fields.forEach(field => {
+      field.comments
+        .filter(c => c.isError)
+        .forEach(c =>
+          warnings.push({
+            type: type.name,
+            field: field.name,
+            message: c.text,
+          }),
+        );
+    });
+  });
+
+  return warnings;
+}
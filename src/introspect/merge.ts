@@ -0,0 +1,94 @@
+import {
+  camelCase,
+  capitalize,
+  cloneSchema,
+  IGQLField,
+  IGQLType,
+  ISDL,
+} from "prisma-datamodel";
+import { IntrospectionWarning } from "../types";
+
+export interface SchemaDatamodel {
+  schema: string;
+  datamodel: ISDL;
+}
+
+/**
+ * `cloneSchema` points the field types to the cloned types, but the related fields
+ * keep pointing to the fields of the original datamodel. Types and fields are cloned in order.
+ */
+function relinkRelatedFields(original: ISDL, clonedTypes: IGQLType[]) {
+  const clonedFields = new Map<IGQLField, IGQLField>();
+  original.types.forEach((type, i) => {
+    type.fields.forEach((field, j) => {
+      clonedFields.set(field, clonedTypes[i].fields[j]);
+    });
+  });
+
+  clonedTypes.forEach(type => {
+    type.fields.forEach(field => {
+      if (field.relatedField) {
+        field.relatedField =
+          clonedFields.get(field.relatedField) || field.relatedField;
+      }
+    });
+  });
+}
+
+/**
+ * Merges the datamodels of several schemas into one.
+ * When a type name is already taken by a previous schema, the type is prefixed with its schema name,
+ * and numbered when that name is taken too. It keeps pointing to its table through `@db(name:)`.
+ */
+export function mergeDatamodels(
+  datamodels: SchemaDatamodel[],
+): {
+  datamodel: ISDL;
+  warnings: IntrospectionWarning[];
+  typesBySchema: Record<string, string[]>;
+} {
+  const takenNames = new Set<string>();
+  const warnings: IntrospectionWarning[] = [];
+  const merged: ISDL = { types: [], comments: [] };
+  const typesBySchema: Record<string, string[]> = {};
+
+  datamodels.forEach(({ schema, datamodel }) => {
+    // Cloning keeps the per-schema results untouched by the renaming
+    const { types, comments = [] } = cloneSchema(datamodel);
+    relinkRelatedFields(datamodel, types);
+    // A new name must not clash with the types of this schema either
+    const schemaNames = new Set(types.map(type => type.name));
+    const isFree = (name: string) =>
+      !takenNames.has(name) && !schemaNames.has(name);
+
+    types.forEach(type => {
+      if (takenNames.has(type.name)) {
+        const prefixedName = `${capitalize(camelCase(schema))}${type.name}`;
+        let newName = prefixedName;
+        for (let i = 2; !isFree(newName); i++) {
+          newName = `${prefixedName}${i}`;
+        }
+        schemaNames.add(newName);
+
+        warnings.push({
+          type: type.name,
+          field: null,
+          message: `The type also exists in another schema and was renamed to ${newName}.`,
+        });
+
+        if (!type.isEnum && !type.isEmbedded && !type.databaseName) {
+          type.databaseName = type.name;
+        }
+        type.name = newName;
+      }
+
+      takenNames.add(type.name);
+    });
+
+    merged.types.push(...types);
+    typesBySchema[schema] = types.map(type => type.name);
+    merged.comments!.push(...comments);
+  });
+
+  return { datamodel: merged, warnings, typesBySchema };
+}
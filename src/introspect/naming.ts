@@ -0,0 +1,162 @@
+import { singular } from "pluralize";
+import {
+  camelCase,
+  capitalize,
+  IGQLField,
+  IGQLType,
+  ISDL,
+} from "prisma-datamodel";
+import { IntrospectionWarning } from "../types";
+import { isRelationField } from "./util";
+
+export const TYPE_NAMING_STRATEGIES = ["pascalCase", "singular"];
+export const FIELD_NAMING_STRATEGIES = ["camelCase"];
+
+export type TypeNamingStrategy = "pascalCase" | "singular";
+export type FieldNamingStrategy = "camelCase";
+
+export interface NamingStrategies {
+  types?: TypeNamingStrategy[];
+  fields?: FieldNamingStrategy[];
+  /**
+   * Prefixes like `tbl_` or `fk_` removed from type and field names, case insensitive
+   */
+  stripPrefixes?: string[];
+}
+
+function stripPrefixes(name: string, prefixes: string[]): string {
+  const prefix = prefixes.find(
+    p =>
+      name.toLowerCase().startsWith(p.toLowerCase()) && name.length > p.length,
+  );
+
+  return prefix ? name.slice(prefix.length) : name;
+}
+
+/**
+ * Like `camelCase`, but also lower cases words written in capitals, e.g. `USER_ID`
+ */
+function toCamelCase(name: string): string {
+  return camelCase(
+    name
+      .split(/\s|-|_/)
+      .filter(Boolean)
+      .map(word => (word.toUpperCase() === word ? word.toLowerCase() : word))
+      .join("_"),
+  );
+}
+
+function getTypeName(
+  databaseName: string,
+  { types = [], stripPrefixes: prefixes = [] }: NamingStrategies,
+): string {
+  let name = stripPrefixes(databaseName, prefixes);
+
+  if (types.includes("singular")) {
+    name = singular(name);
+  }
+  if (types.includes("pascalCase")) {
+    name = capitalize(toCamelCase(name));
+  }
+
+  return name;
+}
+
+function getFieldName(
+  field: IGQLField,
+  databaseName: string,
+  { fields = [], stripPrefixes: prefixes = [] }: NamingStrategies,
+): string {
+  let name = stripPrefixes(databaseName, prefixes);
+
+  if (fields.includes("camelCase")) {
+    // The relation points to the type, not to its id
+    if (isRelationField(field) && /.+_id$/i.test(name)) {
+      name = name.slice(0, -3);
+    }
+    name = toCamelCase(name);
+  }
+
+  return name;
+}
+
+/**
+ * Same as the normalization of prisma-db-introspection: the database name is kept with `@db(name:)`
+ */
+function rename(obj: IGQLType | IGQLField, newName: string) {
+  if (newName === obj.name) {
+    return;
+  }
+
+  if (obj.databaseName === null) {
+    obj.databaseName = obj.name;
+  }
+  obj.name = newName;
+}
+
+/**
+ * Renames the types and fields of the datamodel according to the strategies. Names are derived
+ * from the database names, a rename is skipped and reported when the name is already taken.
+ */
+export function applyNamingStrategies(
+  datamodel: ISDL,
+  strategies: NamingStrategies = {},
+): { datamodel: ISDL; warnings: IntrospectionWarning[] } {
+  const { types = [], fields = [], stripPrefixes: prefixes = [] } = strategies;
+  const warnings: IntrospectionWarning[] = [];
+
+  if (types.length === 0 && fields.length === 0 && prefixes.length === 0) {
+    return { datamodel, warnings };
+  }
+
+  // Enums and embedded types are not backed by a table
+  const tableTypes = datamodel.types.filter(t => !t.isEnum && !t.isEmbedded);
+
+  tableTypes.forEach(type => {
+    const newName = getTypeName(type.databaseName || type.name, strategies);
+
+    if (newName === type.name) {
+      return;
+    }
+
+    if (!newName || datamodel.types.some(t => t.name === newName)) {
+      warnings.push({
+        type: type.name,
+        field: null,
+        message: `The type can't be renamed to ${newName}, the name is already taken.`,
+      });
+      return;
+    }
+
+    rename(type, newName);
+  });
+
+  datamodel.types
+    .filter(type => !type.isEnum)
+    .forEach(type => {
+      type.fields.forEach(field => {
+        const newName = getFieldName(
+          field,
+          field.databaseName || field.name,
+          strategies,
+        );
+
+        if (newName === field.name) {
+          return;
+        }
+
+        if (!newName || type.fields.some(f => f.name === newName)) {
+          warnings.push({
+            type: type.name,
+            field: field.name,
+            message: `The field can't be renamed to ${newName}, the name is already taken.`,
+          });
+          return;
+        }
+
+        rename(field, newName);
+      });
+    });
+
+  return { datamodel, warnings };
+}
@@ -0,0 +1,313 @@
+import {
+  DirectiveKeys,
+  IGQLField,
+  IGQLType,
+  ISDL,
+  isTypeIdentifier,
+} from "prisma-datamodel";
+import { IntrospectionWarning } from "../types";
+import { isRelationField } from "./util";
+
+export interface FieldOverride {
+  name?: string;
+  /**
+   * A scalar type like `String` or `DateTime`, or the name of an enum
+   */
+  type?: string;
+  unique?: boolean;
+  /**
+   * Leaves the field out of the datamodel
+   */
+  hidden?: boolean;
+}
+
+export interface TypeOverride {
+  name?: string;
+  /**
+   * By column name
+   */
+  fields?: Record<string, FieldOverride>;
+}
+
+export interface RelationOverride {
+  name?: string;
+  /**
+   * New names of the fields of the relation, by their introspected name. Also reaches
+   * the back relation fields, which have no column.
+   */
+  fields?: Record<string, string>;
+}
+
+/**
+ * Hand-curated names and fields, reapplied on every introspection.
+ * Types are matched by their table name, fields by their column name.
+ */
+export interface IntrospectionOverrides {
+  types?: Record<string, TypeOverride>;
+  /**
+   * By relation name. A string only renames the relation.
+   */
+  relations?: Record<string, string | RelationOverride>;
+}
+
+export const STALE_OVERRIDE_MESSAGE =
+  "The override doesn't match any table, column or relation of the database. Remove it from the overrides file.";
+
+function getDatabaseName(obj: IGQLType | IGQLField): string {
+  return obj.databaseName || obj.name;
+}
+
+function rename(obj: IGQLType | IGQLField, newName: string) {
+  if (obj.databaseName === null) {
+    obj.databaseName = obj.name;
+  }
+  obj.name = newName;
+}
+
+function getRelationLink(field: IGQLField): string | null {
+  const directive = field.directives.find(
+    d => d.name === DirectiveKeys.relation && Boolean(d.arguments.link),
+  );
+  return directive ? String(directive.arguments.link) : null;
+}
+
+/**
+ * Relation fields without a column, like back relation lists, get no `@db(name:)`
+ * when they are renamed
+ */
+function holdsColumn(field: IGQLField): boolean {
+  const other = field.relatedField;
+
+  if (field.isList || getRelationLink(field) === "TABLE") {
+    return false;
+  }
+  if (getRelationLink(field) === "INLINE" || field.databaseName !== null) {
+    return true;
+  }
+
+  return (
+    !other ||
+    other.isList ||
+    !(getRelationLink(other) === "INLINE" || other.databaseName !== null)
+  );
+}
+
+function renameRelationField(
+  type: IGQLType,
+  field: IGQLField,
+  newName: string,
+  warnings: IntrospectionWarning[],
+) {
+  if (newName === field.name) {
+    return;
+  }
+
+  if (type.fields.some(f => f.name === newName)) {
+    warnings.push({
+      type: type.name,
+      field: field.name,
+      message: `The field can't be renamed to ${newName}, the name is already taken.`,
+    });
+    return;
+  }
+
+  if (holdsColumn(field)) {
+    rename(field, newName);
+  } else {
+    field.name = newName;
+  }
+}
+
+function applyFieldOverride(
+  datamodel: ISDL,
+  type: IGQLType,
+  field: IGQLField,
+  override: FieldOverride,
+  warnings: IntrospectionWarning[],
+) {
+  if (override.hidden) {
+    type.fields = type.fields.filter(f => f !== field);
+    if (field.relatedField) {
+      field.relatedField.relatedField = null;
+    }
+    return;
+  }
+
+  if (override.type) {
+    const enumType = datamodel.types.find(
+      t => t.isEnum && t.name === override.type,
+    );
+
+    if (isRelationField(field)) {
+      warnings.push({
+        type: type.name,
+        field: field.name,
+        message: `The type of a relation field can't be overridden.`,
+      });
+    } else if (enumType) {
+      field.type = enumType;
+    } else if (isTypeIdentifier(override.type)) {
+      field.type = override.type;
+    } else {
+      warnings.push({
+        type: type.name,
+        field: field.name,
+        message: `${override.type} is neither a scalar type nor an enum, the type was not overridden.`,
+      });
+    }
+  }
+
+  if (override.unique !== undefined) {
+    field.isUnique = override.unique;
+  }
+
+  if (override.name && override.name !== field.name) {
+    if (type.fields.some(f => f.name === override.name)) {
+      warnings.push({
+        type: type.name,
+        field: field.name,
+        message: `The field can't be renamed to ${override.name}, the name is already taken.`,
+      });
+    } else {
+      rename(field, override.name);
+    }
+  }
+}
+
+/**
+ * Applies the overrides to the normalized datamodel. Overrides that match nothing
+ * are reported as stale.
+ */
+export function applyOverrides(
+  datamodel: ISDL,
+  { types = {}, relations = {} }: IntrospectionOverrides = {},
+): { datamodel: ISDL; warnings: IntrospectionWarning[] } {
+  const warnings: IntrospectionWarning[] = [];
+
+  Object.keys(types).forEach(tableName => {
+    const typeOverride = types[tableName] || {};
+    const type = datamodel.types.find(
+      t => !t.isEnum && getDatabaseName(t) === tableName,
+    );
+
+    if (!type) {
+      warnings.push({
+        type: tableName,
+        field: null,
+        message: STALE_OVERRIDE_MESSAGE,
+      });
+      return;
+    }
+
+    const fieldOverrides = typeOverride.fields || {};
+    Object.keys(fieldOverrides).forEach(columnName => {
+      const field = type.fields.find(f => getDatabaseName(f) === columnName);
+
+      if (!field) {
+        warnings.push({
+          type: tableName,
+          field: columnName,
+          message: STALE_OVERRIDE_MESSAGE,
+        });
+        return;
+      }
+
+      applyFieldOverride(
+        datamodel,
+        type,
+        field,
+        fieldOverrides[columnName] || {},
+        warnings,
+      );
+    });
+
+    if (typeOverride.name && typeOverride.name !== type.name) {
+      if (datamodel.types.some(t => t.name === typeOverride.name)) {
+        warnings.push({
+          type: type.name,
+          field: null,
+          message: `The type can't be renamed to ${typeOverride.name}, the name is already taken.`,
+        });
+      } else {
+        rename(type, typeOverride.name);
+      }
+    }
+  });
+
+  Object.keys(relations).forEach(relationName => {
+    const relationOverride = relations[relationName];
+    const { name, fields: fieldNames = {} }: RelationOverride =
+      typeof relationOverride === "string"
+        ? { name: relationOverride }
+        : relationOverride || {};
+    const fields = datamodel.types.reduce<Array<[IGQLType, IGQLField]>>(
+      (acc, type) => [
+        ...acc,
+        ...type.fields
+          .filter(f => f.relationName === relationName)
+          .map<[IGQLType, IGQLField]>(f => [type, f]),
+      ],
+      [],
+    );
+
+    if (fields.length === 0) {
+      warnings.push({
+        type: relationName,
+        field: null,
+        message: STALE_OVERRIDE_MESSAGE,
+      });
+      return;
+    }
+
+    Object.keys(fieldNames).forEach(fieldName => {
+      const match = fields.find(([, f]) => f.name === fieldName);
+
+      if (!match) {
+        warnings.push({
+          type: relationName,
+          field: fieldName,
+          message: STALE_OVERRIDE_MESSAGE,
+        });
+        return;
+      }
+
+      renameRelationField(match[0], match[1], fieldNames[fieldName], warnings);
+    });
+
+    if (name) {
+      fields.forEach(([, field]) => {
+        field.relationName = name;
+      });
+    }
+  });
+
+  return { datamodel, warnings };
+}
+
+/**
+ * Every schema is checked against the same overrides,
+ * so an override is only stale if none of the schemas matched it
+ */
+export function mergeOverrideWarnings(
+  warningsPerSchema: IntrospectionWarning[][],
+): IntrospectionWarning[] {
+  const isStale = (warning: IntrospectionWarning) =>
+    warning.message === STALE_OVERRIDE_MESSAGE;
+  const isSameOverride = (a: IntrospectionWarning) => (
+    b: IntrospectionWarning,
+  ) => isStale(b) && a.type === b.type && a.field === b.field;
+
+  return warningsPerSchema.reduce<IntrospectionWarning[]>(
+    (acc, warnings, i) => [
+      ...acc,
+      ...warnings.filter(
+        warning =>
+          !isStale(warning) ||
+          // Reported once, by the first schema
+          (i === 0 &&
+            warningsPerSchema.every(w => w.some(isSameOverride(warning)))),
+      ),
+    ],
+    [],
+  );
+}
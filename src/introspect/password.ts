@@ -0,0 +1,31 @@
+import * as fs from "fs";
+import * as path from "path";
+
+/**
+ * Only the trailing line break is removed, as it is added by `echo` and most editors
+ */
+function stripTrailingNewline(password: string): string {
+  return password.replace(/\r?\n$/, "");
+}
+
+export function readPasswordFile(filePath: string): string {
+  const resolvedPath = path.resolve(filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`--password-file path '${resolvedPath}' does not exist`);
+  }
+
+  return stripTrailingNewline(fs.readFileSync(resolvedPath, "utf-8"));
+}
+
+export function readPasswordFromStdin(): Promise<string> {
+  return new Promise((resolve, reject) => {
+    let password = "";
+
+    process.stdin.setEncoding("utf-8");
+    process.stdin
+      .on("data", chunk => (password += chunk))
+      .once("end", () => resolve(stripTrailingNewline(password)))
+      .once("error", reject);
+  });
+}
@@ -0,0 +1,335 @@
+import {
+  DatabaseType,
+  IGQLField,
+  IGQLType,
+  TypeIdentifiers,
+} from "prisma-datamodel";
+import { DatabaseMetadata } from "prisma-db-introspection/dist/common/introspectionResult";
+import IDatabaseClient from "prisma-db-introspection/dist/databases/IDatabaseClient";
+import {
+  IEnum,
+  IInternalColumnCommentInfo,
+  IInternalIndexInfo,
+  ISequenceInfo,
+  ITable,
+  ITableRelation,
+  RelationalConnector,
+} from "prisma-db-introspection/dist/databases/relational/relationalConnector";
+import { RelationalIntrospectionResult } from "prisma-db-introspection/dist/databases/relational/relationalIntrospectionResult";
+import { Database } from "sqlite3";
+
+/**
+ * Adapts the callback based sqlite3 driver to the client interface of the introspection connectors
+ */
+export class SqliteDatabaseClient implements IDatabaseClient {
+  constructor(private database: Database) {}
+
+  query(query: string, variables: any[] = []): Promise<any[]> {
+    return new Promise((resolve, reject) => {
+      this.database.all(query, variables, (err, rows) => {
+        if (err) {
+          reject(err);
+        } else {
+          resolve(rows);
+        }
+      });
+    });
+  }
+}
+
+interface TableInfoRow {
+  cid: number;
+  name: string;
+  type: string;
+  notnull: number;
+  dflt_value: string | null;
+  pk: number;
+}
+
+/**
+ * SQLite has no information_schema, everything is read from sqlite_master and the PRAGMA statements.
+ * Schemas are the attached databases, `main` being the opened file.
+ */
+export class SqliteConnector extends RelationalConnector {
+  constructor(client: SqliteDatabaseClient) {
+    super(client);
+  }
+
+  getDatabaseType(): DatabaseType {
+    return DatabaseType.sqlite;
+  }
+
+  async listSchemas(): Promise<string[]> {
+    const databases = await this.query("PRAGMA database_list");
+    return databases.map(d => d.name).filter(name => name !== "temp");
+  }
+
+  async getMetadata(schemaName: string): Promise<DatabaseMetadata> {
+    const tables = await this.queryTables(schemaName);
+    const [{ page_count }] = await this.query(
+      `PRAGMA ${quote(schemaName)}.page_count`,
+    );
+    const [{ page_size }] = await this.query(
+      `PRAGMA ${quote(schemaName)}.page_size`,
+    );
+
+    return {
+      countOfTables: tables.length,
+      sizeInBytes: page_count * page_size,
+    };
+  }
+
+  protected createIntrospectionResult(
+    models: ITable[],
+    relations: ITableRelation[],
+    enums: IEnum[],
+    sequences: ISequenceInfo[],
+  ): RelationalIntrospectionResult {
+    return new SqliteIntrospectionResult(models, relations, enums, sequences);
+  }
+
+  protected async queryTables(schemaName: string): Promise<string[]> {
+    const tables = await this.query(
+      `SELECT name FROM ${quote(schemaName)}.sqlite_master
+       WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+       ORDER BY name`,
+    );
+    return tables.map(t => t.name);
+  }
+
+  protected async queryColumns(schemaName: string) {
+    const tables = await this.queryTables(schemaName);
+    const columnsByTable = await Promise.all(
+      tables.map(async tableName => {
+        const columns = await this.queryTableInfo(schemaName, tableName);
+        const pkColumns = columns.filter(c => c.pk > 0);
+
+        return columns.map(column => ({
+          name: column.name,
+          type: column.type,
+          isList: false,
+          readOnly: false,
+          isUnique: false,
+          // A single INTEGER PRIMARY KEY is an alias of the auto incremented rowid
+          isAutoIncrement:
+            column.pk > 0 &&
+            pkColumns.length === 1 &&
+            column.type.toUpperCase() === "INTEGER",
+          defaultValue: column.dflt_value as string,
+          isNullable: column.notnull === 0 && column.pk === 0,
+          comment: null,
+          tableName,
+        }));
+      }),
+    );
+
+    return columnsByTable.reduce((acc, columns) => [...acc, ...columns], []);
+  }
+
+  protected async queryIndices(
+    schemaName: string,
+  ): Promise<IInternalIndexInfo[]> {
+    const tables = await this.queryTables(schemaName);
+    const indicesByTable = await Promise.all(
+      tables.map(async tableName => {
+        const columns = await this.queryTableInfo(schemaName, tableName);
+        const primaryKeyFields = columns
+          .filter(c => c.pk > 0)
+          .sort((a, b) => a.pk - b.pk)
+          .map(c => c.name);
+        const indexList = await this.query(
+          `PRAGMA ${quote(schemaName)}.index_list(${quote(tableName)})`,
+        );
+
+        const indices: IInternalIndexInfo[] = await Promise.all(
+          indexList
+            // The primary key is read from the table info, as INTEGER PRIMARY KEY columns have no index
+            .filter(index => index.origin !== "pk")
+            .map(async index => {
+              const indexInfo = await this.query(
+                `PRAGMA ${quote(schemaName)}.index_info(${quote(index.name)})`,
+              );
+              return {
+                tableName,
+                name: index.name,
+                fields: indexInfo
+                  .sort((a, b) => a.seqno - b.seqno)
+                  .map(i => i.name),
+                unique: index.unique === 1,
+                isPrimaryKey: false,
+              };
+            }),
+        );
+
+        if (primaryKeyFields.length > 0) {
+          indices.push({
+            tableName,
+            name: `${tableName}_pkey`,
+            fields: primaryKeyFields,
+            unique: true,
+            isPrimaryKey: true,
+          });
+        }
+
+        return indices;
+      }),
+    );
+
+    return indicesByTable.reduce((acc, indices) => [...acc, ...indices], []);
+  }
+
+  protected async listRelations(schemaName: string): Promise<ITableRelation[]> {
+    const tables = await this.queryTables(schemaName);
+    const relationsByTable = await Promise.all(
+      tables.map(async tableName => {
+        const foreignKeys = await this.query(
+          `PRAGMA ${quote(schemaName)}.foreign_key_list(${quote(tableName)})`,
+        );
+
+        return Promise.all(
+          foreignKeys.map(async foreignKey => ({
+            sourceTable: tableName,
+            sourceColumn: foreignKey.from,
+            targetTable: foreignKey.table,
+            // Without an explicit column, the foreign key references the primary key
+            targetColumn:
+              foreignKey.to ||
+              (await this.getPrimaryKeyColumn(schemaName, foreignKey.table)),
+          })),
+        );
+      }),
+    );
+
+    return relationsByTable.reduce(
+      (acc, relations) => [...acc, ...relations],
+      [],
+    );
+  }
+
+  protected async queryColumnComments(): Promise<IInternalColumnCommentInfo[]> {
+    return [];
+  }
+
+  protected async queryEnums(): Promise<IEnum[]> {
+    return [];
+  }
+
+  protected async listSequences(): Promise<ISequenceInfo[]> {
+    return [];
+  }
+
+  protected getTypeColumnName() {
+    return "type";
+  }
+
+  protected getAutoIncrementCondition() {
+    return "false";
+  }
+
+  protected parameter() {
+    return "?";
+  }
+
+  private queryTableInfo(
+    schemaName: string,
+    tableName: string,
+  ): Promise<TableInfoRow[]> {
+    return this.query(
+      `PRAGMA ${quote(schemaName)}.table_info(${quote(tableName)})`,
+    );
+  }
+
+  private async getPrimaryKeyColumn(
+    schemaName: string,
+    tableName: string,
+  ): Promise<string> {
+    const columns = await this.queryTableInfo(schemaName, tableName);
+    const primaryKey = columns.find(c => c.pk === 1);
+    return primaryKey ? primaryKey.name : "rowid";
+  }
+}
+
+export class SqliteIntrospectionResult extends RelationalIntrospectionResult {
+  constructor(
+    model: ITable[],
+    relations: ITableRelation[],
+    enums: IEnum[],
+    sequences: ISequenceInfo[],
+  ) {
+    super(model, relations, enums, sequences, DatabaseType.sqlite);
+  }
+
+  protected isTypeReserved(type: IGQLType): boolean {
+    return type.name === "_RelayId" || type.name === "_Migration";
+  }
+
+  /**
+   * Follows the type affinity rules of SQLite, see https://www.sqlite.org/datatype3.html
+   */
+  protected toTypeIdentifyer(
+    fieldTypeName: string,
+    fieldInfo: IGQLField,
+  ): string | null {
+    const type = fieldTypeName.toUpperCase();
+
+    if (type.includes("BOOL")) {
+      return TypeIdentifiers.boolean;
+    }
+    if (type.includes("INT")) {
+      return TypeIdentifiers.integer;
+    }
+    if (type.includes("UUID")) {
+      return TypeIdentifiers.uuid;
+    }
+    if (type.includes("JSON")) {
+      return TypeIdentifiers.json;
+    }
+    if (type.includes("DATE") || type.includes("TIME")) {
+      return TypeIdentifiers.dateTime;
+    }
+    if (
+      type.includes("CHAR") ||
+      type.includes("CLOB") ||
+      type.includes("TEXT")
+    ) {
+      return fieldInfo.isId ? TypeIdentifiers.id : TypeIdentifiers.string;
+    }
+    if (
+      type.includes("REAL") ||
+      type.includes("FLOA") ||
+      type.includes("DOUB") ||
+      type.includes("NUMERIC") ||
+      type.includes("DECIMAL")
+    ) {
+      return TypeIdentifiers.float;
+    }
+
+    return null;
+  }
+
+  protected parseDefaultValue(defaultValueString: string): string | null {
+    if (defaultValueString.toUpperCase() === "NULL") {
+      return null;
+    }
+
+    const quoted = defaultValueString.match(/^'(.*)'$/);
+    if (quoted) {
+      return quoted[1].replace(/''/g, "'");
+    }
+
+    // Expressions like CURRENT_TIMESTAMP can't be expressed in the datamodel
+    if (!/^-?\d+(\.\d+)?$/.test(defaultValueString)) {
+      return null;
+    }
+
+    return defaultValueString;
+  }
+
+  protected resolveSequences(types: IGQLType[]): IGQLType[] {
+    return types; // SQLite has no sequences
+  }
+}
+
+function quote(identifier: string): string {
+  return `"${identifier.replace(/"/g, '""')}"`;
+}
@@ -0,0 +1,167 @@
+import * as fs from "fs";
+import * as net from "net";
+import * as os from "os";
+import * as path from "path";
+import { Client, ConnectConfig } from "ssh2";
+import { DatabaseCredentials } from "../types";
+
+export interface SshTunnel {
+  /**
+   * The local port forwarded to the database through the SSH host
+   */
+  localPort: number;
+  /**
+   * Set when the SSH connection or the tunnel failed, the database connection breaks then
+   */
+  error: Error | null;
+  close: () => Promise<void>;
+}
+
+/**
+ * Forwards a random local port to `destination`, which is resolved from the SSH host.
+ * Every connection to the local port opens a new channel on the same SSH connection.
+ */
+export async function openSshTunnel(
+  credentials: DatabaseCredentials,
+  destination: { host: string; port: number },
+): Promise<SshTunnel> {
+  const client = await getConnectedSshClient(credentials);
+  const sockets = new Set<net.Socket>();
+  const server = net.createServer();
+  const tunnel: SshTunnel = {
+    localPort: 0,
+    error: null,
+    close: () =>
+      new Promise<void>(resolve => {
+        sockets.forEach(socket => socket.destroy());
+        client.end();
+        if (server.listening) {
+          server.close(() => resolve());
+        } else {
+          resolve();
+        }
+      }),
+  };
+
+  // Errors after the handshake, e.g. the SSH host dropping the connection, end every pipe.
+  // The database client on the other end of the sockets reports the broken connection.
+  const fail = (err: Error) => {
+    tunnel.error = tunnel.error || err;
+    sockets.forEach(socket => socket.destroy());
+    client.end();
+    if (server.listening) {
+      server.close();
+    }
+  };
+
+  client.on("error", err =>
+    fail(
+      new Error(
+        `The connection to the SSH host ${credentials.sshHost} failed. ${err.message}`,
+      ),
+    ),
+  );
+
+  server.on("connection", (socket: net.Socket) => {
+    sockets.add(socket);
+    socket.once("close", () => sockets.delete(socket));
+    socket.on("error", () => socket.destroy());
+
+    client.forwardOut(
+      socket.remoteAddress || "127.0.0.1",
+      socket.remotePort || 0,
+      destination.host,
+      destination.port,
+      (err, stream) => {
+        if (err) {
+          tunnel.error = new Error(
+            `The SSH host ${credentials.sshHost} could not forward the connection to ${destination.host}:${destination.port}. ${err.message}`,
+          );
+          socket.destroy();
+          return;
+        }
+
+        stream.on("error", () => stream.destroy());
+        stream.once("close", () => socket.destroy());
+        socket.once("close", () => stream.destroy());
+        socket.pipe(stream).pipe(socket);
+      },
+    );
+  });
+
+  try {
+    await new Promise((resolve, reject) => {
+      server.once("error", reject);
+      server.listen(0, "127.0.0.1", resolve);
+    });
+  } catch (e) {
+    client.end();
+    throw e;
+  }
+
+  server.on("error", fail);
+
+  if (tunnel.error) {
+    await tunnel.close();
+    throw tunnel.error;
+  }
+
+  tunnel.localPort = (server.address() as net.AddressInfo).port;
+
+  return tunnel;
+}
+
+function getConnectedSshClient(
+  credentials: DatabaseCredentials,
+): Promise<Client> {
+  return new Promise((resolve, reject) => {
+    const client = new Client();
+
+    client
+      .once("ready", () => resolve(client))
+      .once("error", err =>
+        reject(
+          new Error(
+            `Could not connect to the SSH host ${credentials.sshHost}. ${err.message}`,
+          ),
+        ),
+      )
+      .connect({
+        host: credentials.sshHost,
+        port: Number(credentials.sshPort) || 22,
+        username: credentials.sshUser || os.userInfo().username,
+        ...getSshAuthentication(credentials.sshKey),
+      });
+  });
+}
+
+/**
+ * Uses the provided key, then the ssh-agent, then the default key of the current user
+ */
+function getSshAuthentication(keyPath?: string): Partial<ConnectConfig> {
+  if (keyPath) {
+    const resolvedPath = path.resolve(
+      keyPath.replace(/^~(?=$|\/)/, os.homedir()),
+    );
+
+    if (!fs.existsSync(resolvedPath)) {
+      throw new Error(`The SSH key ${resolvedPath} does not exist`);
+    }
+
+    return { privateKey: fs.readFileSync(resolvedPath) };
+  }
+
+  if (process.env.SSH_AUTH_SOCK) {
+    return { agent: process.env.SSH_AUTH_SOCK };
+  }
+
+  const defaultKeyPath = path.join(os.homedir(), ".ssh", "id_rsa");
+
+  if (fs.existsSync(defaultKeyPath)) {
+    return { privateKey: fs.readFileSync(defaultKeyPath) };
+  }
+
+  throw new Error(
+    `Please provide the private key of the SSH user with --ssh-key or start an ssh-agent`,
+  );
+}
@@ -0,0 +1,99 @@
+import * as fs from "fs";
+import * as path from "path";
+import { DatabaseType } from "prisma-datamodel";
+import { checkServerIdentity, ConnectionOptions } from "tls";
+import { DatabaseCredentials, SslMode } from "../types";
+
+export const SSL_MODES: SslMode[] = [
+  "disable",
+  "require",
+  "verify-ca",
+  "verify-full",
+];
+
+export function isSslMode(mode: string): mode is SslMode {
+  return SSL_MODES.includes(mode as SslMode);
+}
+
+/**
+ * Resolves the sslmode the way libpq does. Providing any TLS setting enables SSL,
+ * and `require` verifies the certificate authority as soon as one is provided.
+ */
+export function getSslMode(credentials: DatabaseCredentials): SslMode {
+  const { sslMode, sslCa } = credentials;
+
+  if (sslMode && !isSslMode(sslMode)) {
+    throw new Error(
+      `The sslmode "${sslMode}" is invalid. Use one of: ${SSL_MODES.join(
+        ", ",
+      )}`,
+    );
+  }
+
+  if (sslMode) {
+    return sslMode === "require" && sslCa ? "verify-ca" : sslMode;
+  }
+
+  if (sslCa) {
+    return "verify-ca";
+  }
+
+  if (credentials.ssl || credentials.sslCert || credentials.sslKey) {
+    return "require";
+  }
+
+  return "disable";
+}
+
+/**
+ * The TLS options passed to the pg and mysql drivers, undefined when SSL is disabled
+ */
+export function getSslOptions(
+  credentials: DatabaseCredentials,
+): ConnectionOptions | undefined {
+  const sslMode = getSslMode(credentials);
+
+  if (sslMode === "disable") {
+    return undefined;
+  }
+
+  // The mysql driver only checks the certificate chain, it has no hook to check the host name
+  if (sslMode === "verify-full" && credentials.type === DatabaseType.mysql) {
+    throw new Error(
+      `The sslmode "verify-full" is not supported for MySQL, the server name can't be verified. Use "verify-ca" instead.`,
+    );
+  }
+
+  const servername = credentials.sslServername || credentials.host;
+
+  return {
+    ca: readSslFile(credentials.sslCa, "CA certificate"),
+    cert: readSslFile(credentials.sslCert, "client certificate"),
+    key: readSslFile(credentials.sslKey, "client key"),
+    rejectUnauthorized:
+      typeof credentials.sslRejectUnauthorized === "boolean"
+        ? credentials.sslRejectUnauthorized
+        : sslMode !== "require",
+    checkServerIdentity: (host, cert) =>
+      sslMode === "verify-full"
+        ? checkServerIdentity(servername || host, cert)
+        : undefined,
+  };
+}
+
+function readSslFile(
+  filePath: string | undefined,
+  description: string,
+): string | undefined {
+  if (!filePath) {
+    return undefined;
+  }
+
+  const resolvedPath = path.resolve(filePath);
+
+  if (!fs.existsSync(resolvedPath)) {
+    throw new Error(`The ${description} file ${resolvedPath} does not exist`);
+  }
+
+  return fs.readFileSync(resolvedPath, "utf-8");
+}
@@ -0,0 +1,155 @@
+/**
+ * Programmatic entry point. Nothing is printed, no prompt is rendered and
+ * the process is never exited, errors are thrown as `IntrospectionError`.
+ */
+import {
+  classifyError,
+  ExitCode,
+  IntrospectionError,
+} from "./introspect/errors";
+import { TypeFilters } from "./introspect/filter";
+import {
+  introspectDatabase,
+  mergeIntrospectionResults,
+} from "./introspect/introspect";
+import { NamingStrategies } from "./introspect/naming";
+import { IntrospectionOverrides } from "./introspect/overrides";
+import {
+  assertSchemaExists,
+  ConnectorAndDisconnect,
+  createParser,
+  getConnectedConnectorFromCredentials,
+  getDatabaseSchemas,
+  getSamplingStrategy,
+  splitSchemaNames,
+} from "./introspect/util";
+import {
+  DatabaseCredentials,
+  DatamodelVersion,
+  IntrospectionResult,
+} from "./types";
+
+export {
+  ConnectorPlugin,
+  registerConnectorPlugin,
+} from "./introspect/connectors";
+export { EMIT_TARGETS, EmitTarget, getEmitTarget } from "./emit/targets";
+export { ExitCode, IntrospectionError } from "./introspect/errors";
+export {
+  readIntrospectionOverrides,
+} from "./prisma-config/IntrospectionOverrides";
+export * from "./types";
+
+export interface IntrospectOptions extends TypeFilters {
+  /**
+   * The schemas to introspect, they are merged into one datamodel. Default: `credentials.schema`
+   */
+  schemas?: string[];
+  /**
+   * An existing datamodel used as reference to keep its names and directives
+   */
+  existingDatamodel?: string;
+  /**
+   * Renames the types and fields, the database names are kept with `@db(name:)`
+   */
+  naming?: NamingStrategies;
+  /**
+   * Hand-curated names and fields, see `readIntrospectionOverrides` to read them from a file
+   */
+  overrides?: IntrospectionOverrides;
+  /**
+   * Format of the rendered datamodel, and of `existingDatamodel`. Default: 1.1
+   */
+  datamodelVersion?: DatamodelVersion;
+}
+
+export async function introspect(
+  credentials: DatabaseCredentials,
+  {
+    schemas,
+    existingDatamodel,
+    include,
+    exclude,
+    naming,
+    overrides,
+    datamodelVersion,
+  }: IntrospectOptions = {},
+): Promise<IntrospectionResult> {
+  const schemaNames =
+    schemas || (credentials.schema ? splitSchemaNames(credentials.schema) : []);
+
+  if (schemaNames.length === 0) {
+    throw new IntrospectionError(
+      `Please provide a schema to introspect`,
+      ExitCode.SchemaNotFound,
+      "Set `credentials.schema` or the `schemas` option.",
+    );
+  }
+
+  return withConnector(credentials, async ({ connector, disconnect }) => {
+    const availableSchemas = await getDatabaseSchemas(connector);
+    schemaNames.forEach(schemaName =>
+      assertSchemaExists(schemaName, credentials.type, availableSchemas),
+    );
+
+    const results: IntrospectionResult[] = [];
+    // All schemas are introspected over the same connection
+    for (const schemaName of schemaNames) {
+      results.push(
+        await introspectDatabase(
+          {
+            connector,
+            disconnect,
+            databaseType: credentials.type,
+            databaseName: schemaName,
+            samplingStrategy: getSamplingStrategy(credentials),
+          },
+          {
+            existingDatamodel: existingDatamodel
+              ? createParser(
+                  credentials.type,
+                  datamodelVersion,
+                ).parseFromSchemaString(existingDatamodel)
+              : null,
+            filters: { include, exclude },
+            naming,
+            overrides,
+            datamodelVersion,
+          },
+        ),
+      );
+    }
+
+    return mergeIntrospectionResults(results);
+  });
+}
+
+export async function listSchemas(
+  credentials: DatabaseCredentials,
+): Promise<string[]> {
+  return withConnector(credentials, ({ connector }) =>
+    getDatabaseSchemas(connector),
+  );
+}
+
+async function withConnector<T>(
+  credentials: DatabaseCredentials,
+  fn: (connectorAndDisconnect: ConnectorAndDisconnect) => Promise<T>,
+): Promise<T> {
+  let connectorAndDisconnect: ConnectorAndDisconnect;
+  try {
+    connectorAndDisconnect = await getConnectedConnectorFromCredentials(
+      credentials,
+    );
+  } catch (e) {
+    throw classifyError(e);
+  }
+
+  try {
+    return await fn(connectorAndDisconnect);
+  } catch (e) {
+    throw classifyError(e);
+  } finally {
+    await connectorAndDisconnect.disconnect();
+  }
+}
@@ -0,0 +1,186 @@
+import * as Ajv from 'ajv'
+import * as fs from 'fs'
+import * as yaml from 'js-yaml'
+import * as os from 'os'
+import * as path from 'path'
+import { DatabaseType } from 'prisma-datamodel'
+import { URL } from 'url'
+import { SSL_MODES } from '../introspect/ssl'
+import { DatabaseCredentials } from '../types'
+
+export const CONNECTION_PROFILES_FILE = path.join(
+  os.homedir(),
+  '.prisma',
+  'introspect-profiles.yml',
+)
+
+/**
+ * Saved credentials of a database. Passwords are never stored,
+ * they are read from the environment variable named by `passwordEnv`.
+ */
+export type ConnectionProfile = Omit<DatabaseCredentials, 'password'> & {
+  passwordEnv?: string
+}
+
+export type ConnectionProfiles = Record<string, ConnectionProfile>
+
+const string = { type: 'string' }
+const number = { type: 'number' }
+const boolean = { type: 'boolean' }
+
+const profileSchema = {
+  type: 'object',
+  additionalProperties: false,
+  required: ['type'],
+  properties: {
+    type: { enum: Object.values(DatabaseType) },
+    connector: string,
+    host: string,
+    port: number,
+    socket: string,
+    user: string,
+    passwordEnv: string,
+    database: string,
+    schema: string,
+    uri: string,
+    sampleAll: boolean,
+    ssl: boolean,
+    sslMode: { enum: SSL_MODES },
+    sslCa: string,
+    sslCert: string,
+    sslKey: string,
+    sslServername: string,
+    sslRejectUnauthorized: boolean,
+    sshHost: string,
+    sshPort: number,
+    sshUser: string,
+    sshKey: string,
+  },
+}
+
+const schema = {
+  type: 'object',
+  additionalProperties: profileSchema,
+}
+
+const ajv = new Ajv()
+const validate = ajv.compile(schema)
+
+export function readConnectionProfiles(
+  filePath: string = CONNECTION_PROFILES_FILE,
+): ConnectionProfiles {
+  if (!fs.existsSync(filePath)) {
+    return {}
+  }
+
+  const profiles = (yaml.safeLoad(fs.readFileSync(filePath, 'utf-8')) ||
+    {}) as Record<string, any>
+
+  Object.keys(profiles).forEach(name => {
+    if (profiles[name] && profiles[name].password !== undefined) {
+      throw new Error(
+        `The profile "${name}" in ${filePath} contains a password. Store it in an environment variable and reference it with passwordEnv instead.`,
+      )
+    }
+  })
+
+  if (!validate(profiles)) {
+    throw new Error(
+      `Invalid connection profiles ${filePath}\n` +
+        validate
+          .errors!.map(
+            e => `${path.basename(filePath)}${e.dataPath} ${e.message}`,
+          )
+          .join('\n'),
+    )
+  }
+
+  return profiles as ConnectionProfiles
+}
+
+/**
+ * Adds the credentials to the profiles file, replacing a profile of the same name.
+ * The password is left out, it's read from `passwordEnv` when the profile is used.
+ */
+export function saveConnectionProfile(
+  name: string,
+  credentials: DatabaseCredentials,
+  passwordEnv?: string,
+  filePath: string = CONNECTION_PROFILES_FILE,
+): void {
+  const { password, ...rest } = credentials
+  // Text inputs of the prompt provide strings
+  const toNumber = (value?: number | string) =>
+    value === undefined || value === '' ? undefined : Number(value)
+  const profile = Object.entries({
+    ...rest,
+    uri: rest.uri && removePasswordFromUri(rest.uri),
+    port: toNumber(rest.port),
+    sshPort: toNumber(rest.sshPort),
+    passwordEnv,
+  }).reduce<Record<string, any>>(
+    (acc, [key, value]) =>
+      value === undefined || value === '' ? acc : { ...acc, [key]: value },
+    {},
+  )
+
+  if (!validate({ [name]: profile })) {
+    throw new Error(
+      `The connection can't be saved as profile "${name}": ${validate
+        .errors!.map(e => `${e.dataPath} ${e.message}`)
+        .join(', ')}`,
+    )
+  }
+
+  const profiles = { ...readConnectionProfiles(filePath), [name]: profile }
+
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  fs.writeFileSync(filePath, yaml.safeDump(profiles))
+}
+
+function removePasswordFromUri(uri: string): string {
+  const url = new URL(uri)
+  url.password = ''
+  return url.toString()
+}
+
+export function getCredentialsFromProfile(
+  name: string,
+  profiles: ConnectionProfiles,
+): DatabaseCredentials {
+  const profile = profiles[name]
+
+  if (!profile) {
+    const names = Object.keys(profiles)
+    throw new Error(
+      names.length > 0
+        ? `The profile "${name}" does not exist. The following are available: ${names.join(
+            ', ',
+          )}`
+        : `The profile "${name}" does not exist. Profiles are read from ${CONNECTION_PROFILES_FILE}`,
+    )
+  }
+
+  const { passwordEnv, ...credentials } = profile
+
+  if (!passwordEnv) {
+    return credentials
+  }
+
+  const password = process.env[passwordEnv]
+
+  if (password === undefined) {
+    throw new Error(
+      `The environment variable ${passwordEnv} referenced by the profile "${name}" is not set`,
+    )
+  }
+
+  // Mongo credentials are part of the connection string
+  if (credentials.type === DatabaseType.mongo && credentials.uri) {
+    const url = new URL(credentials.uri)
+    url.password = password
+    return { ...credentials, uri: url.toString() }
+  }
+
+  return { ...credentials, password }
+}
@@ -0,0 +1,212 @@
+import * as fs from 'fs'
+import * as yaml from 'js-yaml'
+import * as path from 'path'
+import { DatabaseType } from 'prisma-datamodel'
+import { URL } from 'url'
+import { DatabaseCredentials } from '../types'
+
+export const DOCKER_COMPOSE_FILES = [
+  'docker-compose.yml',
+  'docker-compose.yaml',
+]
+
+interface DockerComposeService {
+  environment?: Record<string, string> | string[]
+  ports?: (string | number)[]
+}
+
+interface DockerCompose {
+  services?: Record<string, DockerComposeService>
+}
+
+/**
+ * The `databases.default` block of the Prisma server config
+ */
+interface PrismaServerDatabase {
+  connector?: string
+  host?: string
+  port?: number
+  user?: string
+  password?: string
+  database?: string
+  schema?: string
+  ssl?: boolean
+  uri?: string
+}
+
+/**
+ * The ports the official database images listen on
+ */
+const defaultContainerPorts: Record<string, number> = {
+  [DatabaseType.mysql]: 3306,
+  [DatabaseType.postgres]: 5432,
+  [DatabaseType.mongo]: 27017,
+}
+
+const connectorToDatabaseType: Record<string, DatabaseType> = {
+  mysql: DatabaseType.mysql,
+  postgres: DatabaseType.postgres,
+  mongo: DatabaseType.mongo,
+}
+
+export function findDockerComposeFile(
+  definitionDir: string,
+): string | undefined {
+  const dirs = [definitionDir, process.cwd()]
+
+  return dirs
+    .reduce<string[]>(
+      (acc, dir) => [
+        ...acc,
+        ...DOCKER_COMPOSE_FILES.map(file => path.join(dir, file)),
+      ],
+      [],
+    )
+    .find(filePath => fs.existsSync(filePath))
+}
+
+/**
+ * Reads the database credentials of the Prisma server defined in docker-compose.yml.
+ * The database is reached from the host machine, so hostnames of compose services
+ * are replaced with localhost and their published port.
+ */
+export function readDockerComposeCredentials(
+  definitionDir: string,
+): DatabaseCredentials | null {
+  const filePath = findDockerComposeFile(definitionDir)
+
+  if (!filePath) {
+    return null
+  }
+
+  try {
+    return parseDockerComposeCredentials(filePath)
+  } catch (e) {
+    throw new Error(`${filePath} could not be read: ${e.message}`)
+  }
+}
+
+function parseDockerComposeCredentials(
+  filePath: string,
+): DatabaseCredentials | null {
+  const compose = yaml.safeLoad(
+    fs.readFileSync(filePath, 'utf-8'),
+  ) as DockerCompose
+  const services = (compose && compose.services) || {}
+
+  const prismaConfig = Object.keys(services)
+    .map(name => getEnvironmentVariable(services[name], 'PRISMA_CONFIG'))
+    .find(Boolean)
+
+  if (!prismaConfig) {
+    return null
+  }
+
+  const config = yaml.safeLoad(prismaConfig) as any
+  const database: PrismaServerDatabase | undefined =
+    config && config.databases && config.databases.default
+
+  if (!database || !database.connector) {
+    return null
+  }
+
+  const type = connectorToDatabaseType[database.connector]
+
+  if (!type) {
+    return null
+  }
+
+  if (type === DatabaseType.mongo) {
+    return {
+      type,
+      uri: database.uri && replaceServiceHostInUri(database.uri, services),
+      schema: database.database,
+    }
+  }
+
+  const { host, port } = replaceServiceHost(
+    database.host,
+    database.port || defaultContainerPorts[type],
+    services,
+  )
+
+  return {
+    type,
+    host,
+    port,
+    user: database.user,
+    password: database.password,
+    database: database.database,
+    schema: type === DatabaseType.mysql ? database.database : database.schema,
+    ssl: database.ssl,
+  }
+}
+
+function getEnvironmentVariable(
+  service: DockerComposeService,
+  name: string,
+): string | undefined {
+  const { environment } = service || ({} as DockerComposeService)
+
+  if (!environment) {
+    return undefined
+  }
+
+  if (Array.isArray(environment)) {
+    const variable = environment.find(v => v.startsWith(`${name}=`))
+    return variable ? variable.slice(name.length + 1) : undefined
+  }
+
+  return environment[name]
+}
+
+function replaceServiceHost(
+  host: string | undefined,
+  port: number | undefined,
+  services: Record<string, DockerComposeService>,
+): { host?: string; port?: number } {
+  if (!host || !services[host]) {
+    return { host, port }
+  }
+
+  return {
+    host: 'localhost',
+    port: getPublishedPort(services[host], port) || port,
+  }
+}
+
+function replaceServiceHostInUri(
+  uri: string,
+  services: Record<string, DockerComposeService>,
+): string {
+  const url = new URL(uri)
+  const { host, port } = replaceServiceHost(
+    url.hostname,
+    url.port
+      ? parseInt(url.port, 10)
+      : defaultContainerPorts[DatabaseType.mongo],
+    services,
+  )
+
+  url.hostname = host!
+  url.port = port ? String(port) : ''
+
+  return url.toString()
+}
+
+/**
+ * Finds the host port of a `ports` entry like `"3307:3306"` or `"127.0.0.1:3307:3306"`
+ */
+function getPublishedPort(
+  service: DockerComposeService,
+  containerPort: number | undefined,
+): number | undefined {
+  const mappings = (service.ports || []).map(p => String(p).split(':'))
+  const mapping = mappings.find(
+    parts =>
+      parts.length > 1 &&
+      parseInt(parts[parts.length - 1], 10) === containerPort,
+  )
+
+  return mapping ? parseInt(mapping[mapping.length - 2], 10) : undefined
+}
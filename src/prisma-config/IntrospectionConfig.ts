@@ -0,0 +1,115 @@
+import * as Ajv from 'ajv'
+import * as fs from 'fs'
+import * as yaml from 'js-yaml'
+import * as path from 'path'
+import {
+  FIELD_NAMING_STRATEGIES,
+  NamingStrategies,
+  TYPE_NAMING_STRATEGIES,
+} from '../introspect/naming'
+
+export const INTROSPECTION_CONFIG_FILE = 'prisma-introspect.yml'
+
+/**
+ * Settings of the introspection that can be kept next to prisma.yml,
+ * so that they don't have to be passed as flags on every run
+ */
+export interface IntrospectionConfig {
+  /**
+   * Glob patterns of tables, views and collections to introspect
+   */
+  include?: string[]
+  /**
+   * Glob patterns of tables, views and collections to leave out of the datamodel
+   */
+  exclude?: string[]
+  /**
+   * Connector plugins to load, paths relative to this file or package names
+   */
+  connectors?: string[]
+  /**
+   * Renames the introspected types and fields, e.g. `user_account_roles` to `UserAccountRole`
+   */
+  naming?: NamingStrategies
+  /**
+   * Path of the overrides file, relative to this file
+   */
+  overrides?: string
+  /**
+   * Additional files to generate next to the datamodel, e.g. `ts`
+   */
+  emit?: string[]
+  /**
+   * Groups the types of the emitted diagrams by their schema
+   */
+  clusterBySchema?: boolean
+}
+
+const stringArray = { type: 'array', items: { type: 'string' } }
+
+const schema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    include: stringArray,
+    exclude: stringArray,
+    connectors: stringArray,
+    naming: {
+      type: 'object',
+      additionalProperties: false,
+      properties: {
+        types: { type: 'array', items: { enum: TYPE_NAMING_STRATEGIES } },
+        fields: { type: 'array', items: { enum: FIELD_NAMING_STRATEGIES } },
+        stripPrefixes: stringArray,
+      },
+    },
+    overrides: { type: 'string' },
+    emit: stringArray,
+    clusterBySchema: { type: 'boolean' },
+  },
+}
+
+const ajv = new Ajv()
+const validate = ajv.compile(schema)
+
+/**
+ * Reads the introspection config. An explicitly provided `filePath` must exist,
+ * otherwise the default file next to prisma.yml is used if there is one.
+ */
+export function readIntrospectionConfig(
+  definitionDir: string,
+  filePath?: string,
+): IntrospectionConfig {
+  const configPath = filePath
+    ? path.resolve(filePath)
+    : path.join(definitionDir, INTROSPECTION_CONFIG_FILE)
+
+  if (!fs.existsSync(configPath)) {
+    if (filePath) {
+      throw new Error(`--config path '${configPath}' does not exist`)
+    }
+
+    return {}
+  }
+
+  const config = yaml.safeLoad(fs.readFileSync(configPath, 'utf-8')) || {}
+
+  if (!validate(config)) {
+    throw new Error(
+      `Invalid introspection config ${configPath}\n` +
+        validate
+          .errors!.map(
+            e => `${path.basename(configPath)}${e.dataPath} ${e.message}`,
+          )
+          .join('\n'),
+    )
+  }
+
+  const introspectionConfig = config as IntrospectionConfig
+  const { overrides } = introspectionConfig
+
+  return {
+    ...introspectionConfig,
+    overrides: overrides && path.resolve(path.dirname(configPath), overrides),
+  }
+}
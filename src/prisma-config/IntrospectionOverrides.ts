@@ -0,0 +1,78 @@
+import * as Ajv from 'ajv'
+import * as fs from 'fs'
+import * as yaml from 'js-yaml'
+import * as path from 'path'
+import { IntrospectionOverrides } from '../introspect/overrides'
+
+const string = { type: 'string' }
+const boolean = { type: 'boolean' }
+
+const fieldOverrideSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    name: string,
+    type: string,
+    unique: boolean,
+    hidden: boolean,
+  },
+}
+
+const typeOverrideSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    name: string,
+    fields: { type: 'object', additionalProperties: fieldOverrideSchema },
+  },
+}
+
+const relationOverrideSchema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    name: string,
+    fields: { type: 'object', additionalProperties: string },
+  },
+}
+
+const schema = {
+  type: 'object',
+  additionalProperties: false,
+  properties: {
+    types: { type: 'object', additionalProperties: typeOverrideSchema },
+    relations: {
+      type: 'object',
+      additionalProperties: { anyOf: [string, relationOverrideSchema] },
+    },
+  },
+}
+
+const ajv = new Ajv()
+const validate = ajv.compile(schema)
+
+/**
+ * Reads an overrides file. JSON is read as well, as it's a subset of YAML.
+ */
+export function readIntrospectionOverrides(
+  filePath: string,
+): IntrospectionOverrides {
+  if (!fs.existsSync(filePath)) {
+    throw new Error(`The overrides file '${filePath}' does not exist`)
+  }
+
+  const overrides = yaml.safeLoad(fs.readFileSync(filePath, 'utf-8')) || {}
+
+  if (!validate(overrides)) {
+    throw new Error(
+      `Invalid overrides ${filePath}\n` +
+        validate
+          .errors!.map(
+            e => `${path.basename(filePath)}${e.dataPath} ${e.message}`,
+          )
+          .join('\n'),
+    )
+  }
+
+  return overrides as IntrospectionOverrides
+}
@@ -98,6 +98,16 @@ export class PrismaDefinitionClass {
     this.secrets = secrets ? secrets.replace(/\s/g, '').split(',') : null
   }
 
+  /**
+   * Kept under `custom`, as prisma.yml doesn't allow other unknown properties
+   */
+  get datamodelVersion(): string | undefined {
+    const custom = this.rawJson && this.rawJson.custom
+    return custom && custom.datamodelVersion !== undefined
+      ? String(custom.datamodelVersion)
+      : undefined
+  }
+
   get endpoint(): string | undefined {
     return (
       (this.definition && this.definition.endpoint) ||
@@ -308,8 +318,10 @@ and execute ${chalk.bold.green(
     return null
   }
 
-  addDatamodel(datamodel: string) {
-    this.definitionString += `\ndatamodel: ${datamodel}`
+  addDatamodel(datamodel: string | string[]) {
+    this.definitionString += Array.isArray(datamodel)
+      ? `\ndatamodel:\n${datamodel.map(d => `  - ${d}`).join('\n')}`
+      : `\ndatamodel: ${datamodel}`
     fs.writeFileSync(this.definitionPath!, this.definitionString)
     this.definition!.datamodel = datamodel
   }
@@ -6,21 +6,52 @@ import {
   ConnectorData,
   getConnectedConnectorFromCredentials,
   getDatabaseSchemas,
+  getMongoDatabaseFromUri,
+  getSamplingStrategy,
+  sanitizeMongoUri,
 } from "../introspect/util";
+import {
+  ConnectorPlugin,
+  getConnectorPlugin,
+  getConnectorPlugins,
+} from "../introspect/connectors";
+import { classifyError } from "../introspect/errors";
 import { OnSubmitParams, Prompt } from "../prompt-lib/BoxPrompt";
-import { SelectElement } from "../prompt-lib/types";
 import { DatabaseCredentials, IntrospectionResult } from "../types";
-import { CHOOSE_DB_ELEMENTS, CONNECT_DB_ELEMENTS } from "./prompts-elements";
+import {
+  CHOOSE_DB_ELEMENTS,
+  CHOOSE_PROFILE_ELEMENTS,
+  CHOOSE_SCHEMA_ELEMENTS,
+  CONFIGURE_SSH_ELEMENTS,
+  CONNECT_DB_ELEMENTS,
+  SAVE_PROFILE_ELEMENTS,
+  SAVED_CONNECTIONS_ELEMENTS,
+  SaveProfileForm,
+} from "./prompts-elements";
+import {
+  CONNECTION_PROFILES_FILE,
+  ConnectionProfiles,
+  getCredentialsFromProfile,
+  saveConnectionProfile,
+} from "../prisma-config/ConnectionProfiles";
 
 enum Steps {
   CHOOSE_DB,
+  CHOOSE_PROFILE,
   CONNECT_DB,
+  CONFIGURE_SSH,
+  SAVE_PROFILE,
   CHOOSE_SCHEMA,
 }
 
 interface Props {
-  onSubmit: (introspectionResult: IntrospectionResult) => void;
+  onSubmit: (introspectionResults: IntrospectionResult[]) => void;
   introspect: (connector: ConnectorData) => Promise<IntrospectionResult>;
+  profiles: ConnectionProfiles;
+  /**
+   * Prefills the credentials form when the same database type is chosen
+   */
+  defaultCredentials: DatabaseCredentials | null;
 }
 
 interface State {
@@ -29,11 +60,16 @@ interface State {
   connectorData: Partial<ConnectorData>;
   schemas: string[];
   introspecting: boolean;
+  defaultCredentials: DatabaseCredentials | null;
 }
 
 type ActionChooseDB = {
   type: "choose_db";
-  payload: DatabaseType;
+  payload: ConnectorPlugin;
+};
+
+type ActionChooseProfile = {
+  type: "choose_profile";
 };
 
 type ActionConnect = {
@@ -45,6 +81,20 @@ type ActionConnect = {
   };
 };
 
+type ActionConfigureSsh = {
+  type: "configure_ssh";
+  payload: {
+    credentials: DatabaseCredentials;
+  };
+};
+
+type ActionSaveProfile = {
+  type: "save_profile";
+  payload: {
+    credentials: DatabaseCredentials;
+  };
+};
+
 type ActionBack = {
   type: "back";
   payload: {
@@ -53,7 +103,13 @@ type ActionBack = {
   };
 };
 
-type ActionType = ActionChooseDB | ActionConnect | ActionBack;
+type ActionType =
+  | ActionChooseDB
+  | ActionChooseProfile
+  | ActionConnect
+  | ActionConfigureSsh
+  | ActionSaveProfile
+  | ActionBack;
 
 const initialState: State = {
   step: Steps.CHOOSE_DB,
@@ -61,6 +117,7 @@ const initialState: State = {
   connectorData: {},
   schemas: [],
   introspecting: false,
+  defaultCredentials: null,
 };
 
 const reducer: React.Reducer<State, ActionType> = (state, action) => {
@@ -70,10 +127,19 @@ const reducer: React.Reducer<State, ActionType> = (state, action) => {
         ...state,
         step: Steps.CONNECT_DB,
         credentials: {
+          ...(hasDefaultCredentials(state, action.payload.name)
+            ? state.defaultCredentials
+            : {}),
           ...state.credentials,
-          type: action.payload,
+          type: action.payload.databaseType,
+          connector: action.payload.name,
         },
       };
+    case "choose_profile":
+      return {
+        ...state,
+        step: Steps.CHOOSE_PROFILE,
+      };
     case "connect_db":
       return {
         ...state,
@@ -83,7 +149,28 @@ const reducer: React.Reducer<State, ActionType> = (state, action) => {
           ...action.payload.credentials,
         },
         schemas: action.payload.schemas,
-        connectorData: action.payload.connectorAndDisconnect,
+        connectorData: {
+          ...action.payload.connectorAndDisconnect,
+          samplingStrategy: getSamplingStrategy(action.payload.credentials),
+        },
+      };
+    case "configure_ssh":
+      return {
+        ...state,
+        step: Steps.CONFIGURE_SSH,
+        credentials: {
+          ...state.credentials,
+          ...action.payload.credentials,
+        },
+      };
+    case "save_profile":
+      return {
+        ...state,
+        step: Steps.SAVE_PROFILE,
+        credentials: {
+          ...state.credentials,
+          ...action.payload.credentials,
+        },
       };
     case "back":
       return {
@@ -96,12 +183,12 @@ const reducer: React.Reducer<State, ActionType> = (state, action) => {
   }
 };
 
-const dbTypeTodbName: Record<DatabaseType, string> = {
-  [DatabaseType.postgres]: "Postgres",
-  [DatabaseType.mysql]: "MySQL",
-  [DatabaseType.mongo]: "MongoDB",
-  [DatabaseType.sqlite]: "SQLite",
-};
+function hasDefaultCredentials(state: State, connectorName: string) {
+  return (
+    !!state.defaultCredentials &&
+    getConnectorPlugin(state.defaultCredentials).name === connectorName
+  );
+}
 
 /**
  * WARNING: If you add more steps, make sure to add a `key` to the `<Prompt />`, otherwise the state between each prompt will be shared
@@ -109,7 +196,7 @@ const dbTypeTodbName: Record<DatabaseType, string> = {
 const IntrospectionPrompt: React.FC<Props> = props => {
   const [state, dispatch] = React.useReducer<React.Reducer<State, ActionType>>(
     reducer,
-    initialState,
+    { ...initialState, defaultCredentials: props.defaultCredentials },
   );
 
   switch (state.step) {
@@ -118,36 +205,160 @@ const IntrospectionPrompt: React.FC<Props> = props => {
         <Prompt
           key={Steps.CHOOSE_DB}
           title="What kind of database do you want to introspect?"
-          elements={CHOOSE_DB_ELEMENTS}
+          elements={
+            Object.keys(props.profiles).length > 0
+              ? [
+                  ...SAVED_CONNECTIONS_ELEMENTS,
+                  ...CHOOSE_DB_ELEMENTS(getConnectorPlugins()),
+                ]
+              : CHOOSE_DB_ELEMENTS(getConnectorPlugins())
+          }
           onSubmit={({ selectedValue }) => {
+            if (selectedValue === "__PROFILES__") {
+              return dispatch({ type: "choose_profile" });
+            }
+
             dispatch({
               type: "choose_db",
-              payload: selectedValue,
+              payload: getConnectorPlugin({ connector: selectedValue }),
             });
           }}
           withBackButton={false}
         />
       );
+    case Steps.CHOOSE_PROFILE:
+      return (
+        <Prompt
+          key={Steps.CHOOSE_PROFILE}
+          title="Which saved connection do you want to introspect?"
+          elements={CHOOSE_PROFILE_ELEMENTS(props.profiles)}
+          onSubmit={async params => {
+            if (params.goBack) {
+              return dispatch({
+                type: "back",
+                payload: { prevStep: Steps.CHOOSE_DB },
+              });
+            }
+
+            let credentials: DatabaseCredentials;
+            try {
+              credentials = getCredentialsFromProfile(
+                params.selectedValue,
+                props.profiles,
+              );
+            } catch (e) {
+              params.stopSpinner({ state: "failed", message: e.message });
+              return;
+            }
+
+            await onConnect(params, credentials, dispatch);
+          }}
+          withBackButton
+        />
+      );
     case Steps.CONNECT_DB:
       return (
         <Prompt
           key={Steps.CONNECT_DB}
-          elements={CONNECT_DB_ELEMENTS(state.credentials.type!)}
+          elements={CONNECT_DB_ELEMENTS(getConnectorPlugin(state.credentials))}
           title={`Enter the ${
-            dbTypeTodbName[state.credentials.type!]
-          } credentials`}
+            getConnectorPlugin(state.credentials).displayName
+          } credentials${
+            hasDefaultCredentials(
+              state,
+              getConnectorPlugin(state.credentials).name,
+            )
+              ? " (prefilled from docker-compose.yml)"
+              : ""
+          }`}
           initialFormValues={state.credentials}
           onSubmit={onConnectOrTest(state, dispatch)}
           withBackButton
         />
       );
+    case Steps.CONFIGURE_SSH:
+      return (
+        <Prompt
+          key={Steps.CONFIGURE_SSH}
+          elements={CONFIGURE_SSH_ELEMENTS}
+          title="Enter the SSH tunnel settings, leave the host empty to connect directly"
+          initialFormValues={state.credentials}
+          onSubmit={({ formValues }) => {
+            dispatch({
+              type: "back",
+              payload: {
+                prevStep: Steps.CONNECT_DB,
+                credentials: {
+                  ...state.credentials,
+                  ...formValues,
+                } as DatabaseCredentials,
+              },
+            });
+          }}
+          withBackButton
+        />
+      );
+    case Steps.SAVE_PROFILE:
+      return (
+        <Prompt
+          key={Steps.SAVE_PROFILE}
+          elements={SAVE_PROFILE_ELEMENTS}
+          title="Save the connection as a profile. The password is read from the environment variable when the profile is used"
+          onSubmit={({ formValues, goBack, stopSpinner }) => {
+            if (goBack) {
+              return dispatch({
+                type: "back",
+                payload: { prevStep: Steps.CONNECT_DB },
+              });
+            }
+
+            const { profileName, passwordEnv } = (formValues || {}) as Partial<
+              SaveProfileForm
+            >;
+
+            if (!profileName) {
+              return stopSpinner({
+                state: "failed",
+                message: "Enter a name for the profile",
+              });
+            }
+
+            try {
+              saveConnectionProfile(
+                profileName,
+                state.credentials as DatabaseCredentials,
+                passwordEnv,
+              );
+            } catch (e) {
+              return stopSpinner({ state: "failed", message: e.message });
+            }
+
+            stopSpinner({
+              state: "succeeded",
+              message: `Saved to ${CONNECTION_PROFILES_FILE}`,
+            });
+            dispatch({
+              type: "back",
+              payload: { prevStep: Steps.CONNECT_DB },
+            });
+          }}
+          withBackButton
+        />
+      );
     case Steps.CHOOSE_SCHEMA:
       return (
         <Prompt
           key={Steps.CHOOSE_SCHEMA}
-          title="Select the schema you want to introspect"
+          title={`Select the ${
+            state.credentials.type === DatabaseType.mongo
+              ? "databases"
+              : "schemas"
+          } you want to introspect`}
+          initialFormValues={
+            state.credentials.schema ? { [state.credentials.schema]: true } : {}
+          }
           onSubmit={async ({
-            selectedValue,
+            formValues,
             goBack,
             startSpinner,
             stopSpinner,
@@ -159,29 +370,39 @@ const IntrospectionPrompt: React.FC<Props> = props => {
               });
             }
 
+            const selectedSchemas = state.schemas.filter(
+              schema => formValues && formValues[schema],
+            );
+
+            if (selectedSchemas.length === 0) {
+              return stopSpinner({
+                state: "failed",
+                message: "Select at least one schema",
+              });
+            }
+
             try {
-              startSpinner(`Introspecting ${selectedValue!}`);
-              const introspectionResult = await props.introspect({
-                ...state.connectorData,
-                databaseName: selectedValue,
-              } as ConnectorData);
+              const introspectionResults: IntrospectionResult[] = [];
+              // All schemas are introspected over the same connection
+              for (const schema of selectedSchemas) {
+                startSpinner(`Introspecting ${schema}`);
+                introspectionResults.push(
+                  await props.introspect({
+                    ...state.connectorData,
+                    databaseName: schema,
+                  } as ConnectorData),
+                );
+              }
 
               await state.connectorData.disconnect!();
 
-              props.onSubmit(introspectionResult);
+              props.onSubmit(introspectionResults);
             } catch (e) {
               stopSpinner({ state: "failed", message: e.message });
             }
           }}
           withBackButton
-          elements={state.schemas.map(
-            schema =>
-              ({
-                type: "select",
-                label: schema,
-                value: schema,
-              } as SelectElement),
-          )}
+          elements={CHOOSE_SCHEMA_ELEMENTS(state.schemas)}
         />
       );
   }
@@ -207,6 +428,20 @@ function onConnectOrTest(
       });
     }
 
+    if (params.selectedValue === "__SSH__") {
+      return dispatch({
+        type: "configure_ssh",
+        payload: { credentials: newCredentials },
+      });
+    }
+
+    if (params.selectedValue === "__SAVE__") {
+      return dispatch({
+        type: "save_profile",
+        payload: { credentials: newCredentials },
+      });
+    }
+
     if (params.selectedValue === "__TEST__") {
       await onTest(params, newCredentials);
     }
@@ -226,7 +461,7 @@ async function onConnect(
 
   try {
     const connectorAndDisconnect = await getConnectedConnectorFromCredentials(
-      credentials,
+      sanitizeCredentials(credentials),
     );
     const schemas = await getDatabaseSchemas(connectorAndDisconnect.connector);
 
@@ -238,12 +473,15 @@ async function onConnect(
         payload: {
           schemas,
           connectorAndDisconnect,
-          credentials,
+          credentials: {
+            ...credentials,
+            schema: getPreselectedSchema(credentials),
+          },
         },
       });
     }
   } catch (e) {
-    params.stopSpinner({ state: "failed", message: e.message }); // TODO: Display error message on the prompt
+    params.stopSpinner({ state: "failed", message: getErrorMessage(e) }); // TODO: Display error message on the prompt
   }
 }
 
@@ -254,17 +492,58 @@ async function onTest(
   params.startSpinner();
 
   try {
-    await getConnectedConnectorFromCredentials(credentials);
+    const { disconnect } = await getConnectedConnectorFromCredentials(
+      sanitizeCredentials(credentials),
+    );
+    await disconnect();
     params.stopSpinner({ state: "succeeded" });
   } catch (e) {
-    params.stopSpinner({ state: "failed", message: e.message });
+    params.stopSpinner({ state: "failed", message: getErrorMessage(e) });
+  }
+}
+
+function getErrorMessage(e: Error): string {
+  const { message, hint } = classifyError(e);
+  return hint ? `${message}. ${hint}` : message;
+}
+
+/**
+ * Applies the same handling to the Mongo connection string as the --mongo-uri flag.
+ * The database doesn't need to be part of it, as it can be chosen in the next step.
+ */
+function sanitizeCredentials(
+  credentials: DatabaseCredentials,
+): DatabaseCredentials {
+  if (credentials.type !== DatabaseType.mongo || !credentials.uri) {
+    return credentials;
   }
+
+  return { ...credentials, uri: sanitizeMongoUri(credentials.uri) };
+}
+
+function getPreselectedSchema(
+  credentials: DatabaseCredentials,
+): string | undefined {
+  if (credentials.type !== DatabaseType.mongo || !credentials.uri) {
+    return credentials.schema;
+  }
+
+  return getMongoDatabaseFromUri(credentials.uri);
 }
 
 export async function promptIntrospectionInteractively(
   introspect: (connector: ConnectorData) => Promise<IntrospectionResult>,
+  profiles: ConnectionProfiles,
+  defaultCredentials: DatabaseCredentials | null,
 ) {
-  return new Promise<IntrospectionResult>(async resolve => {
-    render(<IntrospectionPrompt introspect={introspect} onSubmit={resolve} />);
+  return new Promise<IntrospectionResult[]>(async resolve => {
+    render(
+      <IntrospectionPrompt
+        introspect={introspect}
+        profiles={profiles}
+        defaultCredentials={defaultCredentials}
+        onSubmit={resolve}
+      />,
+    );
   });
 }
@@ -0,0 +1,28 @@
+import { render } from "ink";
+import * as React from "react";
+import { Prompt } from "../prompt-lib/BoxPrompt";
+import { PASSWORD_ELEMENTS } from "./prompts-elements";
+
+/**
+ * Asks for the password alone, when every other connection flag has been provided
+ */
+export function promptPassword(
+  title: string,
+  stdout: NodeJS.WriteStream = process.stdout,
+): Promise<string> {
+  return new Promise(resolve => {
+    const { unmount } = render(
+      <Prompt
+        key="password"
+        title={title}
+        elements={PASSWORD_ELEMENTS}
+        onSubmit={({ formValues }) => {
+          unmount();
+          resolve((formValues && formValues.password) || "");
+        }}
+        withBackButton={false}
+      />,
+      { stdout },
+    );
+  });
+}
@@ -1,21 +1,146 @@
-import { DatabaseType } from "prisma-datamodel";
+import { DatabaseType, ISDL } from "prisma-datamodel";
+
+/**
+ * Same values as the libpq sslmode, `allow` and `prefer` are not supported
+ */
+export type SslMode = "disable" | "require" | "verify-ca" | "verify-full";
+
+/**
+ * `1` is the legacy datamodel of Prisma servers before 1.31, `1.1` uses directives like `@id` and `@db`
+ */
+export type DatamodelVersion = "1" | "1.1";
 
 export interface DatabaseCredentials {
   type: DatabaseType;
+  /**
+   * Name of the connector plugin to connect with. Default: the built-in connector of the type
+   */
+  connector?: string;
   host?: string;
   port?: number;
+  /**
+   * Unix domain socket, replaces the host. A directory for Postgres, the socket file for MySQL
+   */
+  socket?: string;
   user?: string;
   password?: string;
   database?: string;
   alreadyData?: boolean;
   schema?: string;
   ssl?: boolean;
+  sslMode?: SslMode;
+  /**
+   * Paths of the PEM encoded CA bundle, client certificate and client key
+   */
+  sslCa?: string;
+  sslCert?: string;
+  sslKey?: string;
+  /**
+   * The name the server certificate is verified against with `verify-full`. Default: the host
+   */
+  sslServername?: string;
+  /**
+   * Overrides whether certificates not signed by a trusted CA are rejected. Default: depends on the sslmode
+   */
+  sslRejectUnauthorized?: boolean;
+  /**
+   * Bastion host the database is reached through. The port forward is opened before connecting
+   */
+  sshHost?: string;
+  sshPort?: number;
+  sshUser?: string;
+  /**
+   * Path of the private key. Default: the ssh-agent or ~/.ssh/id_rsa
+   */
+  sshKey?: string;
   uri?: string;
   executeRaw?: boolean;
+  /**
+   * Sample every document instead of a random subset to infer the structure of Mongo collections
+   */
+  sampleAll?: boolean;
+}
+
+export interface IntrospectionTimings {
+  /**
+   * Time spent reading the database structure, in milliseconds
+   */
+  introspection: number;
+  /**
+   * Time spent normalizing and rendering the datamodel, in milliseconds
+   */
+  rendering: number;
+}
+
+export interface IntrospectionWarning {
+  type: string;
+  field: string | null;
+  message: string;
+}
+
+export interface SchemaSummary {
+  name: string;
+  numTables: number;
+  timings: IntrospectionTimings;
+  /**
+   * Names of the types of the schema in the datamodel
+   */
+  types: string[];
 }
 
+/**
+ * Native database types of the columns, by type and field name
+ */
+export type ColumnTypes = Record<string, Record<string, string>>;
+
 export interface IntrospectionResult {
   sdl: string;
+  datamodel: ISDL;
+  /**
+   * Empty for document databases
+   */
+  columnTypes: ColumnTypes;
   numTables: number;
   referenceDatamodelExists: boolean;
+  databaseType: DatabaseType;
+  databaseName: string;
+  datamodelVersion: DatamodelVersion;
+  timings: IntrospectionTimings;
+  warnings: IntrospectionWarning[];
+  /**
+   * One entry per introspected schema, there are several when the result has been merged
+   */
+  schemas: SchemaSummary[];
+}
+
+export interface WriteDatamodelOptions {
+  /**
+   * Path of the datamodel file to write, relative to the current working directory
+   */
+  output?: string;
+  /**
+   * Replace an existing datamodel file instead of creating a new one. A `.bak` backup is kept
+   */
+  overwrite?: boolean;
+  /**
+   * Only compute which files would be written
+   */
+  dryRun?: boolean;
+}
+
+export interface WrittenDatamodel {
+  /**
+   * Path of the datamodel file, relative to the prisma.yml directory
+   */
+  fileName: string;
+  overwritten: boolean;
+  backupFileName?: string;
+}
+
+export interface EmittedFile extends WrittenDatamodel {
+  /**
+   * Name of the emit target, e.g. `ts`
+   */
+  target: string;
+  warnings: IntrospectionWarning[];
 }